@@ -0,0 +1,13 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'jsdom',
+  roots: ['<rootDir>/tests'],
+  globals: {
+    'ts-jest': {
+      tsconfig: {
+        rootDir: '.',
+        jsx: 'react-jsx'
+      }
+    }
+  }
+};
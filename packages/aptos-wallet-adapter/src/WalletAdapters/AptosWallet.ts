@@ -1,19 +1,15 @@
 import { HexEncodedBytes, TransactionPayload } from 'aptos/src/generated';
 import {
-  WalletDisconnectionError,
-  WalletNotConnectedError,
-  WalletNotReadyError,
+  WalletErrorCode,
   WalletSignAndSubmitMessageError,
-  WalletSignMessageError,
   WalletSignTransactionError
 } from '../WalletProviders/errors';
+import { WalletFeatures, WalletName } from './BaseAdapter';
 import {
-  AccountKeys,
-  BaseWalletAdapter,
-  scopePollingDetectionStrategy,
-  WalletName,
-  WalletReadyState
-} from './BaseAdapter';
+  InjectedWalletAccount,
+  InjectedWalletAdapter,
+  InjectedWalletAdapterConfig
+} from './InjectedWalletAdapter';
 
 interface IApotsErrorResult {
   code: number;
@@ -31,6 +27,11 @@ interface IAptosWallet {
   signTransaction(transaction: any): Promise<Uint8Array | IApotsErrorResult>;
   signMessage(message: string): Promise<{ signature: string }>;
   disconnect(): Promise<void>;
+  network?(): Promise<string>;
+  onNetworkChange?(listener: (network: { networkName: string }) => void): Promise<void>;
+  onAccountChange?(
+    listener: (account: { address?: string; publicKey?: string }) => void
+  ): Promise<void>;
 }
 
 interface AptosWindow extends Window {
@@ -41,181 +42,100 @@ declare const window: AptosWindow;
 
 export const AptosWalletName = 'Petra' as WalletName<'Petra'>;
 
-export interface AptosWalletAdapterConfig {
+export interface AptosWalletAdapterConfig extends InjectedWalletAdapterConfig {
   provider?: IAptosWallet;
-  // network?: WalletAdapterNetwork;
-  timeout?: number;
 }
 
-export class AptosWalletAdapter extends BaseWalletAdapter {
+const isErrorResult = (response: any): response is IApotsErrorResult => !!response?.code;
+
+/** Petra rejects (or resolves) with `{ code, name, message }`, its codes follow EIP-1193 */
+const PETRA_ERROR_CODES: Record<number, WalletErrorCode> = {
+  4001: WalletErrorCode.UserRejected
+};
+
+/** Opens the dApp in the explore tab of Petra's mobile app */
+const PETRA_DEEP_LINK = 'https://petra.app/explore?link={url}';
+
+export class AptosWalletAdapter extends InjectedWalletAdapter<IAptosWallet> {
   name = AptosWalletName;
 
   url = 'https://aptos.dev/guides/building-wallet-extension';
 
   icon = 'https://miro.medium.com/fit/c/176/176/1*Gf747eyRywU8Img0tK5wvw.png';
 
-  protected _provider: IAptosWallet | undefined;
-
-  // protected _network: WalletAdapterNetwork;
-  protected _timeout: number;
-
-  protected _readyState: WalletReadyState =
-    typeof window === 'undefined' || typeof document === 'undefined'
-      ? WalletReadyState.Unsupported
-      : WalletReadyState.NotDetected;
-
-  protected _connecting: boolean;
-
-  protected _wallet: any | null;
-
-  constructor({
-    // provider,
-    // network = WalletAdapterNetwork.Mainnet,
-    timeout = 10000
-  }: AptosWalletAdapterConfig = {}) {
-    super();
-
-    this._provider = typeof window !== 'undefined' ? window.aptos : undefined;
-    // this._network = network;
-    this._timeout = timeout;
-    this._connecting = false;
-    this._wallet = null;
-
-    if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
-      scopePollingDetectionStrategy(() => {
-        if (window.aptos) {
-          this._readyState = WalletReadyState.Installed;
-          this.emit('readyStateChange', this._readyState);
-          return true;
-        }
-        return false;
-      });
-    }
+  /** Petra reports its network and account switches */
+  get features(): WalletFeatures {
+    return { ...super.features, networkInfo: true, accountChangeEvents: true };
   }
 
-  get publicAccount(): AccountKeys {
-    return {
-      publicKey: this._wallet?.publicKey || null,
-      address: this._wallet?.address || null,
-      authKey: this._wallet?.authKey || null
-    };
+  constructor(config: AptosWalletAdapterConfig = {}) {
+    super({ deepLink: PETRA_DEEP_LINK, ...config });
   }
 
-  get connecting(): boolean {
-    return this._connecting;
+  protected detectProvider(): IAptosWallet | undefined {
+    return window.aptos;
   }
 
-  get connected(): boolean {
-    return !!this._wallet?.isConnected;
+  protected async requestConnect(provider: IAptosWallet): Promise<InjectedWalletAccount> {
+    if (await provider.isConnected()) {
+      await provider.disconnect();
+    }
+    return provider.connect();
   }
 
-  get readyState(): WalletReadyState {
-    return this._readyState;
+  protected async requestDisconnect(provider: IAptosWallet): Promise<void> {
+    await provider.disconnect();
   }
 
-  async connect(): Promise<void> {
-    try {
-      if (this.connected || this.connecting) return;
-      if (
-        !(
-          this._readyState === WalletReadyState.Loadable ||
-          this._readyState === WalletReadyState.Installed
-        )
-      )
-        throw new WalletNotReadyError();
-      this._connecting = true;
-
-      const provider = this._provider || window.aptos;
-      const isConnected = await this._provider?.isConnected();
-      if (isConnected === true) {
-        await provider?.disconnect();
-      }
-
-      const response = await provider?.connect();
-      this._wallet = {
-        address: response?.address,
-        publicKey: response?.publicKey,
-        isConnected: true
-      };
-
-      this.emit('connect', this._wallet.publicKey);
-    } catch (error: any) {
-      this.emit('error', error);
-      throw error;
-    } finally {
-      this._connecting = false;
+  protected async requestSignTransaction(
+    provider: IAptosWallet,
+    transaction: TransactionPayload
+  ): Promise<Uint8Array> {
+    const response = await provider.signTransaction(transaction);
+    if (isErrorResult(response)) {
+      throw this.toWalletError(response, 'signTransaction', WalletSignTransactionError);
     }
+    return response;
   }
 
-  async disconnect(): Promise<void> {
-    const wallet = this._wallet;
-    const provider = this._provider || window.aptos;
-    if (wallet) {
-      this._wallet = null;
-
-      try {
-        await provider?.disconnect();
-      } catch (error: any) {
-        this.emit('error', new WalletDisconnectionError(error?.message, error));
-      }
+  protected async requestSignAndSubmitTransaction(
+    provider: IAptosWallet,
+    transaction: TransactionPayload
+  ): Promise<{ hash: HexEncodedBytes }> {
+    const response = await provider.signAndSubmitTransaction(transaction);
+    if (isErrorResult(response)) {
+      throw this.toWalletError(
+        response,
+        'signAndSubmitTransaction',
+        WalletSignAndSubmitMessageError
+      );
     }
+    return response;
+  }
 
-    this.emit('disconnect');
+  protected async requestSignMessage(provider: IAptosWallet, message: string): Promise<string> {
+    const response = await provider.signMessage(message);
+    if (!response?.signature) throw new Error('Sign Message failed');
+    return response.signature;
   }
 
-  async signTransaction(transaction: TransactionPayload): Promise<Uint8Array> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.aptos;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-
-      const response = await provider.signTransaction(transaction);
-      if ((response as IApotsErrorResult).code) {
-        throw new Error((response as IApotsErrorResult).message);
-      }
-      return response as Uint8Array;
-    } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignTransactionError(errMsg));
-      throw error;
-    }
+  protected errorCode(error: any): WalletErrorCode | undefined {
+    return isErrorResult(error) ? PETRA_ERROR_CODES[error.code] : undefined;
   }
 
-  async signAndSubmitTransaction(
-    transaction: TransactionPayload
-  ): Promise<{ hash: HexEncodedBytes }> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.aptos;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-
-      const response = await provider.signAndSubmitTransaction(transaction);
-      if ((response as IApotsErrorResult).code) {
-        throw new Error((response as IApotsErrorResult).message);
-      }
-      return response as { hash: HexEncodedBytes };
-    } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignAndSubmitMessageError(errMsg));
-      throw error;
-    }
+  protected async fetchNetwork(provider: IAptosWallet): Promise<string | undefined> {
+    return provider.network?.();
   }
 
-  async signMessage(message: string): Promise<string> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.aptos;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-      const response = await provider?.signMessage(message);
-      if (response?.signature) {
-        return response.signature;
-      } else {
-        throw new Error('Sign Message failed');
-      }
-    } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignMessageError(errMsg));
-      throw error;
-    }
+  protected async listen(provider: IAptosWallet): Promise<void> {
+    await this.subscribe(
+      (listener) => provider.onNetworkChange?.(listener),
+      (network: { networkName: string }) => this._handleNetworkChange(network?.networkName)
+    );
+    await this.subscribe(
+      (listener) => provider.onAccountChange?.(listener),
+      (account: { address?: string; publicKey?: string }) =>
+        this._handleAccountChange(account as InjectedWalletAccount)
+    );
   }
 }
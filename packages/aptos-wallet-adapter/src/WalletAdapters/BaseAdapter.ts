@@ -1,6 +1,65 @@
-import { MaybeHexString } from 'aptos';
-import { TransactionPayload, HexEncodedBytes } from 'aptos/src/generated';
+import {
+  AptosClient,
+  HexString,
+  MaybeHexString,
+  TransactionBuilderRemoteABI,
+  TxnBuilderTypes,
+  WaitForTransactionError
+} from 'aptos';
+import {
+  EntryFunctionPayload,
+  TransactionPayload,
+  HexEncodedBytes,
+  MoveModule,
+  UserTransaction
+} from 'aptos/src/generated';
 import EventEmitter from 'eventemitter3';
+import { DEFAULT_CONFIRMATION_TIMEOUT, NETWORK_NODE_URLS } from '../config/aptosConstants';
+import {
+  WalletError,
+  WalletErrorClass,
+  WalletErrorCode,
+  WalletMethodNotSupportedError,
+  WalletNotConnectedError,
+  WalletSignMessageError,
+  WalletSimulationError,
+  WalletTimeoutError,
+  WalletTransactionFailedError,
+  WalletUserRejectedError
+} from '../WalletProviders/errors';
+import {
+  AnyTransactionPayload,
+  bcsEntryFunctionId,
+  bcsPayloadToJson,
+  isBcsPayload
+} from '../utilities/bcsPayload';
+import { deepLinkUrl, isMobile } from '../utilities/deepLink';
+import { discoverWallet } from '../utilities/walletDiscovery';
+import {
+  ArgumentEncoding,
+  BCS_ARGUMENT_ENCODING,
+  coerceEntryFunctionArguments,
+  EntryFunctionAbiCache,
+  needsArgumentTypes
+} from '../utilities/entryFunctionArguments';
+import {
+  estimateGasUnitPrice,
+  simulateRawTransaction,
+  SimulationResult
+} from '../utilities/simulateTransaction';
+import {
+  rawTransactionArgs,
+  TransactionOption,
+  TransactionOptions,
+  unsupportedTransactionOptions
+} from '../utilities/transactionOptions';
+import {
+  buildFullMessage,
+  errorCodeFromMessage,
+  errorMessage,
+  sameAddress,
+  SIGN_MESSAGE_PREFIX
+} from '../utilities/util';
 
 declare global {
   interface Window {
@@ -20,12 +79,91 @@ export interface AccountKeys {
   authKey: AuthKey | null;
 }
 
+/** Adapter methods reported as the `operation` of a `WalletError` */
+export type WalletOperation =
+  | 'connect'
+  | 'disconnect'
+  | 'signTransaction'
+  | 'signAndSubmitTransaction'
+  | 'signMessage'
+  | 'simulateTransaction'
+  | 'estimateGasUnitPrice'
+  | 'waitForTransaction'
+  | 'accountChange'
+  | 'networkChange'
+  | 'getAccounts'
+  | 'switchAccount';
+
+export interface SignMessagePayload {
+  message: string;
+  /** Unique per request, eg. issued by the dApp's backend, so the signature can't be replayed */
+  nonce: string;
+  /** Bind the signature to the signing account's address */
+  address?: boolean;
+  /** Bind the signature to the dApp's origin */
+  application?: boolean;
+  /** Bind the signature to the chain id of the wallet's network */
+  chainId?: boolean;
+}
+
+export interface SignMessageResponse {
+  address: string;
+  application?: string;
+  chainId?: number;
+  /** The text that was actually signed, the prefix followed by the requested fields */
+  fullMessage: string;
+  message: string;
+  nonce: string;
+  prefix: typeof SIGN_MESSAGE_PREFIX;
+  publicKey: string;
+  signature: string;
+}
+
+/** What a wallet can do beyond connecting and submitting transactions */
+export interface WalletFeatures {
+  /** Hands back the signed transaction without submitting it */
+  signTransaction: boolean;
+  signMessage: boolean;
+  /** Signs a `SignMessagePayload`, binding the message to a nonce, address, origin and chain */
+  structuredMessages: boolean;
+  /** Tells which network it is on, and when the user switches */
+  networkInfo: boolean;
+  /** Tells when the user switches accounts */
+  accountChangeEvents: boolean;
+  /** Signs transactions with secondary signers */
+  multiAgent: boolean;
+  /** Lists the accounts it holds and switches between them, see `getAccounts` */
+  multiAccount: boolean;
+  /** Honours at least some of the `TransactionOptions`, see `supportedTransactionOptions` */
+  transactionOptions: boolean;
+}
+
+export type WalletFeature = keyof WalletFeatures;
+
 export interface WalletAdapterEvents {
   connect(publicKey: PublicKey): void;
   disconnect(): void;
   error(error: any): void;
   success(value: any): void;
   readyStateChange(readyState: WalletReadyState): void;
+  networkChange(network: WalletAdapterNetwork): void;
+  accountChange(account: AccountKeys): void;
+}
+
+export enum WalletAdapterNetwork {
+  Mainnet = 'mainnet',
+  Testnet = 'testnet',
+  Devnet = 'devnet'
+}
+
+/**
+ * Wallets report their network in different shapes ('Devnet', 'devnet', { name: 'Devnet' }, ...).
+ * Returns undefined for networks the adapter doesn't know about, eg. a custom localnet.
+ */
+export function toWalletAdapterNetwork(name?: string | null): WalletAdapterNetwork | undefined {
+  if (!name) return undefined;
+  const lowerName = name.toLowerCase();
+  return Object.values(WalletAdapterNetwork).find((network) => lowerName.includes(network));
 }
 
 export enum WalletReadyState {
@@ -38,7 +176,8 @@ export enum WalletReadyState {
   NotDetected = 'NotDetected',
   /**
    * Loadable wallets are always available to you. Since you can load them at
-   * any time, it's meaningless to say that they have been detected.
+   * any time, it's meaningless to say that they have been detected. On mobile,
+   * extension wallets with a deep link are loadable through their in-app browser.
    */
   Loadable = 'Loadable',
   /**
@@ -54,18 +193,47 @@ export interface WalletAdapterProps<Name extends string = string> {
   name: WalletName<Name>;
   url: string;
   icon: string;
+  /**
+   * Opens the dApp in the wallet's in-app browser on mobile, `{url}` standing for the dApp's URL
+   * and `{ref}` for its origin
+   */
+  deepLink?: string;
   readyState: WalletReadyState;
+  network: WalletAdapterNetwork;
   connecting: boolean;
   connected: boolean;
   publicAccount: AccountKeys;
-  connect(): Promise<void>;
+  features: WalletFeatures;
+  /** Transaction options the wallet honours, signing with others is rejected */
+  supportedTransactionOptions: TransactionOption[];
+  /** Node the adapter builds transactions with and follows them on */
+  nodeUrl: string;
+  supports(feature: WalletFeature): boolean;
+  connect(timeout?: number): Promise<void>;
   disconnect(): Promise<void>;
   signAndSubmitTransaction(
-    transaction: TransactionPayload,
-    options?: any
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout?: number
   ): Promise<{ hash: HexEncodedBytes }>;
-  signTransaction(transaction: TransactionPayload, options?: any): Promise<Uint8Array>;
-  signMessage(message: string): Promise<string>;
+  signTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout?: number
+  ): Promise<Uint8Array>;
+  signMessage(message: string, timeout?: number): Promise<string>;
+  signMessage(payload: SignMessagePayload, timeout?: number): Promise<SignMessageResponse>;
+  getAccounts?(timeout?: number): Promise<AccountKeys[]>;
+  switchAccount?(address: Address, timeout?: number): Promise<void>;
+  getChainId(): Promise<number>;
+  addModuleAbi(abi: MoveModule): void;
+  simulateTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions
+  ): Promise<SimulationResult>;
+  estimateGasUnitPrice(): Promise<bigint>;
+  waitForTransaction(hash: HexEncodedBytes, timeout?: number): Promise<UserTransaction>;
+  dispose(): void;
 }
 
 export type WalletAdapter<Name extends string = string> = WalletAdapterProps<Name> &
@@ -81,8 +249,12 @@ export abstract class BaseWalletAdapter
 
   abstract icon: string;
 
+  deepLink?: string;
+
   abstract get readyState(): WalletReadyState;
 
+  abstract get network(): WalletAdapterNetwork;
+
   abstract get publicAccount(): AccountKeys;
 
   abstract get connecting(): boolean;
@@ -91,56 +263,372 @@ export abstract class BaseWalletAdapter
     return !!this.publicAccount.publicKey;
   }
 
-  abstract connect(): Promise<void>;
+  /**
+   * Adapters override this for what their wallet lacks or adds, `WalletProvider` rejects calls
+   * relying on a missing feature before reaching the wallet
+   */
+  get features(): WalletFeatures {
+    return {
+      signTransaction: true,
+      signMessage: true,
+      structuredMessages: true,
+      networkInfo: false,
+      accountChangeEvents: false,
+      multiAgent: false,
+      multiAccount: !!this.getAccounts && !!this.switchAccount,
+      transactionOptions: this.supportedTransactionOptions.length > 0
+    };
+  }
+
+  supports(feature: WalletFeature): boolean {
+    return this.features[feature];
+  }
+
+  /**
+   * Ready state of an extension wallet while its API isn't injected. Mobile browsers don't run
+   * extensions, so there it is only reachable through its deep link.
+   */
+  protected get undetectedReadyState(): WalletReadyState {
+    if (typeof window === 'undefined' || typeof document === 'undefined') {
+      return WalletReadyState.Unsupported;
+    }
+    if (isMobile()) return this.deepLink ? WalletReadyState.Loadable : WalletReadyState.Unsupported;
+    return WalletReadyState.NotDetected;
+  }
+
+  /**
+   * On mobile, leaves for the wallet's in-app browser, which reopens the dApp and connects there.
+   * Returns whether it did.
+   */
+  protected openDeepLink(): boolean {
+    if (!this.deepLink || typeof window === 'undefined' || !isMobile()) return false;
+    window.location.assign(deepLinkUrl(this.deepLink, this.name));
+    return true;
+  }
+
+  /** Stops looking for the wallet, set by adapters that discover it with `discoverWallet` */
+  protected _stopDiscovery?: () => void;
+
+  /** Releases what the adapter holds on to while nobody uses it, eg. the wallet discovery */
+  dispose(): void {
+    this._stopDiscovery?.();
+    this._stopDiscovery = undefined;
+  }
+
+  /**
+   * `timeout` (ms) overrides the adapter's configured timeout for a single call, after which the
+   * call rejects with a `WalletTimeoutError`.
+   */
+  abstract connect(timeout?: number): Promise<void>;
   abstract disconnect(): Promise<void>;
   abstract signAndSubmitTransaction(
-    transaction: TransactionPayload
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout?: number
   ): Promise<{ hash: HexEncodedBytes }>;
 
-  abstract signTransaction(transaction: TransactionPayload): Promise<Uint8Array>;
+  abstract signTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout?: number
+  ): Promise<Uint8Array>;
 
-  abstract signMessage(message: string): Promise<string>;
-}
+  /**
+   * Signs `message` verbatim when given a string. A `SignMessagePayload` is turned into a full
+   * message binding it to the nonce and the requested address, origin and chain before signing.
+   */
+  signMessage(message: string, timeout?: number): Promise<string>;
 
-export function scopePollingDetectionStrategy(detect: () => boolean): void {
-  // Early return when server-side rendering
-  if (typeof window === 'undefined' || typeof document === 'undefined') return;
+  signMessage(payload: SignMessagePayload, timeout?: number): Promise<SignMessageResponse>;
+
+  async signMessage(
+    message: string | SignMessagePayload,
+    timeout?: number
+  ): Promise<string | SignMessageResponse> {
+    if (typeof message === 'string') return this.signRawMessage(message, timeout);
+
+    const { address, publicKey } = this.publicAccount;
+    let fields: Omit<SignMessageResponse, 'fullMessage' | 'prefix' | 'publicKey' | 'signature'>;
+    try {
+      if (!address || !publicKey) throw new WalletNotConnectedError();
+      fields = {
+        address: address.toString(),
+        application:
+          message.application && typeof window !== 'undefined' ? window.location.origin : undefined,
+        chainId: message.chainId ? await this.getChainId() : undefined,
+        message: message.message,
+        nonce: message.nonce
+      };
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'signMessage', WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+
+    const fullMessage = buildFullMessage({
+      ...fields,
+      address: message.address ? fields.address : undefined
+    });
+    const signature = await this.signRawMessage(fullMessage, timeout);
+    return {
+      ...fields,
+      fullMessage,
+      prefix: SIGN_MESSAGE_PREFIX,
+      publicKey: publicKey.toString(),
+      signature
+    };
+  }
+
+  /** Asks the wallet to sign `message` as is and resolves with the hex encoded signature */
+  protected abstract signRawMessage(message: string, timeout?: number): Promise<string>;
+
+  /**
+   * Implemented by wallets holding several accounts the dApp may use, which gives them the
+   * `multiAccount` feature. Resolves with all of them, the connected one included.
+   */
+  getAccounts?(timeout?: number): Promise<AccountKeys[]>;
+
+  /** Makes another of the wallet's accounts the connected one, emitting `accountChange` */
+  switchAccount?(address: Address, timeout?: number): Promise<void>;
 
-  const disposers: (() => void)[] = [];
+  /**
+   * How the wallet wants entry function arguments encoded, payloads are handed over as given
+   * when undefined
+   */
+  protected argumentEncoding?: ArgumentEncoding;
+
+  protected _abis = new EntryFunctionAbiCache();
+
+  /** Transaction options the wallet honours, none unless it takes them with the transaction */
+  supportedTransactionOptions: TransactionOption[] = [];
+
+  /**
+   * Throws a `WalletMethodNotSupportedError` naming the options the wallet would have silently
+   * dropped
+   */
+  protected checkTransactionOptions(options?: TransactionOptions): void {
+    const unsupported = unsupportedTransactionOptions(options, this.supportedTransactionOptions);
+    if (unsupported.length) {
+      throw new WalletMethodNotSupportedError(
+        `${this.name} does not support the transaction options: ${unsupported.join(', ')}`
+      );
+    }
+  }
+
+  /** Fullnode of the wallet's network, adapters talking to a custom node should override this */
+  get nodeUrl(): string {
+    return NETWORK_NODE_URLS[this.network];
+  }
+
+  private _nodeClient?: { nodeUrl: string; client: AptosClient };
+
+  /** Client of `nodeUrl`, built again only once the node changes, eg. with the network */
+  protected get client(): AptosClient {
+    const { nodeUrl } = this;
+    if (this._nodeClient?.nodeUrl !== nodeUrl) {
+      this._nodeClient = { nodeUrl, client: new AptosClient(nodeUrl) };
+    }
+    return this._nodeClient.client;
+  }
+
+  async getChainId(): Promise<number> {
+    return this.client.getChainId();
+  }
 
-  function detectAndDispose() {
-    const detected = detect();
-    if (detected) {
-      for (const dispose of disposers) {
-        dispose();
+  /** Makes a module's ABI known, so arguments to its entry functions are coerced without fetching it */
+  addModuleAbi(abi: MoveModule): void {
+    this._abis.add(abi);
+  }
+
+  /**
+   * Converts the arguments of an entry function payload from their canonical forms to what the
+   * wallet expects, looking their types up in the function's ABI when the values are ambiguous.
+   * BCS payloads are converted to JSON first.
+   */
+  protected async coercePayload(transaction: AnyTransactionPayload): Promise<TransactionPayload> {
+    if (isBcsPayload(transaction)) {
+      const func = bcsEntryFunctionId(transaction);
+      const params = func ? await this._abis.getParams(this.client, func) : undefined;
+      transaction = bcsPayloadToJson(transaction, params);
+    }
+    const encoding = this.argumentEncoding;
+    const payload = transaction as TransactionPayload & { function?: string; arguments?: any[] };
+    if (!encoding || !payload.function || !Array.isArray(payload.arguments)) return transaction;
+
+    const params = needsArgumentTypes(payload.arguments, encoding)
+      ? await this._abis.getParams(this.client, payload.function)
+      : undefined;
+    return {
+      ...payload,
+      arguments: coerceEntryFunctionArguments(payload.arguments, params, encoding)
+    } as TransactionPayload;
+  }
+
+  /**
+   * Builds the BCS raw transaction the connected account, or `options.sender`, would send. JSON
+   * entry function payloads are encoded against the function's on-chain ABI.
+   */
+  protected async buildRawTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions
+  ): Promise<TxnBuilderTypes.RawTransaction> {
+    const { address } = this.publicAccount;
+    if (!address) throw new WalletNotConnectedError();
+    const sender = HexString.ensure(options?.sender || address);
+    const rawTxn = isBcsPayload(transaction)
+      ? await this.client.generateRawTransaction(sender, transaction, rawTransactionArgs(options))
+      : await this.buildEntryFunctionTransaction(sender, transaction, options);
+
+    // The SDK only looks the sequence number up, so an explicit one replaces it afterwards
+    const sequenceNumber = options?.sequence_number;
+    if (sequenceNumber === undefined || sequenceNumber === null) return rawTxn;
+    return new TxnBuilderTypes.RawTransaction(
+      rawTxn.sender,
+      BigInt(sequenceNumber),
+      rawTxn.payload,
+      rawTxn.max_gas_amount,
+      rawTxn.gas_unit_price,
+      rawTxn.expiration_timestamp_secs,
+      rawTxn.chain_id
+    );
+  }
+
+  private async buildEntryFunctionTransaction(
+    sender: HexString,
+    transaction: TransactionPayload,
+    options?: TransactionOptions
+  ): Promise<TxnBuilderTypes.RawTransaction> {
+    const payload = transaction as EntryFunctionPayload;
+    if (!payload.function) {
+      throw new Error('Only entry function payloads can be encoded to BCS');
+    }
+    const params = needsArgumentTypes(payload.arguments, BCS_ARGUMENT_ENCODING)
+      ? await this._abis.getParams(this.client, payload.function)
+      : undefined;
+    const { expireTimestamp, ...gasArgs } = rawTransactionArgs(options);
+    const builder = new TransactionBuilderRemoteABI(this.client, {
+      sender,
+      ...gasArgs,
+      ...(expireTimestamp && {
+        expSecFromNow: Number(expireTimestamp) - Math.floor(Date.now() / 1000)
+      })
+    });
+    return builder.build(
+      payload.function,
+      payload.type_arguments,
+      coerceEntryFunctionArguments(payload.arguments, params, BCS_ARGUMENT_ENCODING)
+    );
+  }
+
+  /**
+   * Runs the transaction through the node's simulator as the connected account, without prompting
+   * the wallet. The gas unit price is estimated when `options` doesn't set `gas_unit_price`.
+   * Another `sender` is refused, the simulation carries the connected account's public key.
+   */
+  async simulateTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions
+  ): Promise<SimulationResult> {
+    try {
+      const { address, publicKey } = this.publicAccount;
+      if (!address || !publicKey) throw new WalletNotConnectedError();
+      if (options?.sender && !sameAddress(options.sender, address)) {
+        throw new WalletMethodNotSupportedError(
+          'Only transactions sent by the connected account can be simulated'
+        );
       }
+      const gasUnitPrice = options?.gas_unit_price || (await estimateGasUnitPrice(this.client));
+      const rawTxn = await this.buildRawTransaction(transaction, {
+        ...options,
+        gas_unit_price: gasUnitPrice.toString()
+      });
+      return await simulateRawTransaction(this.client, publicKey, rawTxn);
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'simulateTransaction', WalletSimulationError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  // Strategy #1: Try detecting every second.
-  const interval =
-    // TODO: #334 Replace with idle callback strategy.
-    setInterval(detectAndDispose, 1000);
-  disposers.push(() => clearInterval(interval));
+  /** Gas unit price the wallet's node suggests */
+  async estimateGasUnitPrice(): Promise<bigint> {
+    try {
+      return await estimateGasUnitPrice(this.client);
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'estimateGasUnitPrice');
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
 
-  // Strategy #2: Detect as soon as the DOM becomes 'ready'/'interactive'.
-  if (
-    // Implies that `DOMContentLoaded` has not yet fired.
-    document.readyState === 'loading'
-  ) {
-    document.addEventListener('DOMContentLoaded', detectAndDispose, { once: true });
-    disposers.push(() => document.removeEventListener('DOMContentLoaded', detectAndDispose));
+  /**
+   * Resolves with the transaction once committed, or rejects with a `WalletTransactionFailedError`
+   * when it aborted on chain. `timeout` (ms) bounds the wait, after which it rejects with a
+   * `WalletTimeoutError`.
+   */
+  async waitForTransaction(
+    hash: HexEncodedBytes,
+    timeout = DEFAULT_CONFIRMATION_TIMEOUT
+  ): Promise<UserTransaction> {
+    try {
+      let transaction: UserTransaction;
+      try {
+        transaction = (await this.client.waitForTransactionWithResult(hash, {
+          timeoutSecs: Math.ceil(timeout / 1000)
+        })) as UserTransaction;
+      } catch (error: any) {
+        if (error instanceof WaitForTransactionError) {
+          throw new WalletTimeoutError(error.message, error);
+        }
+        throw error;
+      }
+      if (!transaction.success) {
+        throw new WalletTransactionFailedError(transaction.vm_status, transaction, {
+          code: errorCodeFromMessage(transaction.vm_status)
+        });
+      }
+      return transaction;
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'waitForTransaction');
+      this.emit('error', walletError);
+      throw walletError;
+    }
   }
 
-  // Strategy #3: Detect after the `window` has fully loaded.
-  if (
-    // If the `complete` state has been reached, we're too late.
-    document.readyState !== 'complete'
-  ) {
-    window.addEventListener('load', detectAndDispose, { once: true });
-    disposers.push(() => window.removeEventListener('load', detectAndDispose));
+  /**
+   * Code for an error shape specific to this wallet's provider, eg. a status or error code it
+   * answers with. Without it, or when it returns undefined, the error message is recognized.
+   */
+  protected errorCode?(error: any): WalletErrorCode | undefined;
+
+  /**
+   * Normalizes whatever the provider threw into a `WalletError` tagged with this wallet's name
+   * and the failed operation, keeping the original in `error`. Rejections become a
+   * `WalletUserRejectedError`, other failures an `ErrorClass` unless already a `WalletError`.
+   */
+  protected toWalletError(
+    error: any,
+    operation: WalletOperation,
+    ErrorClass: WalletErrorClass = WalletError
+  ): WalletError {
+    if (error instanceof WalletError) {
+      error.walletName = error.walletName || this.name;
+      error.operation = error.operation || operation;
+      return error;
+    }
+    const message = errorMessage(error);
+    const code = this.errorCode?.(error) || errorCodeFromMessage(message);
+    const details = { code, walletName: this.name, operation };
+    return code === WalletErrorCode.UserRejected
+      ? new WalletUserRejectedError(message, error, details)
+      : new ErrorClass(message, error, details);
   }
+}
 
-  // Strategy #4: Detect synchronously, now.
-  detectAndDispose();
+/**
+ * @deprecated Use `discoverWallet`, which also stops looking once the wallet registers, when
+ * asked to or after a timeout.
+ */
+export function scopePollingDetectionStrategy(detect: () => boolean): void {
+  discoverWallet(detect);
 }
@@ -1,20 +1,11 @@
 import { MaybeHexString } from 'aptos';
 import { TransactionPayload, HexEncodedBytes } from 'aptos/src/generated';
+import { WalletName } from './BaseAdapter';
 import {
-  WalletDisconnectionError,
-  WalletNotConnectedError,
-  WalletNotReadyError,
-  WalletSignAndSubmitMessageError,
-  WalletSignMessageError,
-  WalletSignTransactionError
-} from '../WalletProviders/errors';
-import {
-  AccountKeys,
-  BaseWalletAdapter,
-  scopePollingDetectionStrategy,
-  WalletName,
-  WalletReadyState
-} from './BaseAdapter';
+  InjectedWalletAccount,
+  InjectedWalletAdapter,
+  InjectedWalletAdapterConfig
+} from './InjectedWalletAdapter';
 
 interface IHippoWallet {
   connect: () => Promise<{
@@ -25,7 +16,7 @@ interface IHippoWallet {
   account: () => Promise<string>;
   isConnected: () => Promise<boolean>;
   signAndSubmitTransaction(transaction: any): Promise<any>;
-  signTransaction(transaction: any): Promise<void>;
+  signTransaction(transaction: any): Promise<Uint8Array>;
   signMessage(message: string): Promise<string>;
   disconnect(): Promise<void>;
 }
@@ -38,185 +29,54 @@ declare const window: HippoWindow;
 
 export const HippoExtensionWalletName = 'Hippo' as WalletName<'Hippo'>;
 
-export interface HippoExtensionWalletAdapterConfig {
+export interface HippoExtensionWalletAdapterConfig extends InjectedWalletAdapterConfig {
   provider?: IHippoWallet;
-  // network?: WalletAdapterNetwork;
-  timeout?: number;
 }
 
-export class HippoExtensionWalletAdapter extends BaseWalletAdapter {
+export class HippoExtensionWalletAdapter extends InjectedWalletAdapter<IHippoWallet> {
   name = HippoExtensionWalletName;
 
   url = 'https://github.com/hippospace/hippo-wallet';
 
   icon = 'https://ui-test1-22e7c.web.app/static/media/hippo_logo.ecded6bf411652de9b7f.png';
 
-  protected _provider: IHippoWallet | undefined;
-
-  // protected _network: WalletAdapterNetwork;
-  protected _timeout: number;
-
-  protected _readyState: WalletReadyState =
-    typeof window === 'undefined' || typeof document === 'undefined'
-      ? WalletReadyState.Unsupported
-      : WalletReadyState.NotDetected;
-
-  protected _connecting: boolean;
-
-  protected _wallet: any | null;
-
-  constructor({
-    // provider,
-    // network = WalletAdapterNetwork.Mainnet,
-    timeout = 10000
-  }: HippoExtensionWalletAdapterConfig = {}) {
-    super();
-
-    this._provider = typeof window !== 'undefined' ? window.hippoWallet : undefined;
-    // this._network = network;
-    this._timeout = timeout;
-    this._connecting = false;
-    this._wallet = null;
-
-    if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
-      scopePollingDetectionStrategy(() => {
-        if (window.hippoWallet) {
-          this._readyState = WalletReadyState.Installed;
-          this.emit('readyStateChange', this._readyState);
-          return true;
-        }
-        return false;
-      });
-    }
-  }
-
-  get publicAccount(): AccountKeys {
-    return {
-      publicKey: this._wallet?.publicKey || null,
-      address: this._wallet?.address || null,
-      authKey: this._wallet?.authKey || null
-    };
-  }
-
-  get connecting(): boolean {
-    return this._connecting;
+  constructor(config: HippoExtensionWalletAdapterConfig = {}) {
+    super(config);
   }
 
-  get connected(): boolean {
-    return !!this._wallet?.isConnected;
+  protected detectProvider(): IHippoWallet | undefined {
+    return window.hippoWallet;
   }
 
-  get readyState(): WalletReadyState {
-    return this._readyState;
+  protected async requestConnect(provider: IHippoWallet): Promise<InjectedWalletAccount> {
+    return provider.connect();
   }
 
-  async connect(): Promise<void> {
-    try {
-      if (this.connected || this.connecting) return;
-      if (
-        !(
-          this._readyState === WalletReadyState.Loadable ||
-          this._readyState === WalletReadyState.Installed
-        )
-      )
-        throw new WalletNotReadyError();
-      this._connecting = true;
-
-      const provider = this._provider || window.hippoWallet;
-      const response = await provider?.connect();
-
-      this._wallet = {
-        ...response,
-        isConnected: true
-      };
-
-      this.emit('connect', this._wallet.publicKey);
-    } catch (error: any) {
-      this.emit('error', error);
-      throw error;
-    } finally {
-      this._connecting = false;
-    }
+  protected async requestDisconnect(provider: IHippoWallet): Promise<void> {
+    await provider.disconnect();
   }
 
-  async disconnect(): Promise<void> {
-    const wallet = this._wallet;
-    if (wallet) {
-      this._wallet = null;
-
-      try {
-        const provider = this._provider || window.hippoWallet;
-        await provider?.disconnect();
-      } catch (error: any) {
-        this.emit('error', new WalletDisconnectionError(error?.message, error));
-      }
-    }
-
-    this.emit('disconnect');
-  }
-
-  async signTransaction(transaction: TransactionPayload): Promise<Uint8Array> {
-    try {
-      const wallet = this._wallet;
-      if (!wallet) throw new WalletNotConnectedError();
-
-      try {
-        const provider = this._provider || window.hippoWallet;
-        const response = await provider?.signTransaction(transaction);
-        if (response) {
-          return response;
-        } else {
-          throw new Error('Transaction failed');
-        }
-      } catch (error: any) {
-        throw new WalletSignTransactionError(error?.message, error);
-      }
-    } catch (error: any) {
-      this.emit('error', error);
-      throw error;
-    }
+  protected async requestSignTransaction(
+    provider: IHippoWallet,
+    transaction: TransactionPayload
+  ): Promise<Uint8Array> {
+    const response = await provider.signTransaction(transaction);
+    if (!response) throw new Error('Transaction failed');
+    return response;
   }
 
-  async signAndSubmitTransaction(
+  protected async requestSignAndSubmitTransaction(
+    provider: IHippoWallet,
     transaction: TransactionPayload
   ): Promise<{ hash: HexEncodedBytes }> {
-    try {
-      const wallet = this._wallet;
-      if (!wallet) throw new WalletNotConnectedError();
-
-      try {
-        const provider = this._provider || window.hippoWallet;
-        const response = await provider?.signAndSubmitTransaction(transaction);
-        if (response) {
-          return response.detail.hash;
-        } else {
-          throw new Error('Transaction failed');
-        }
-      } catch (error: any) {
-        // console.log('transact err', error, error.message);
-        throw new WalletSignAndSubmitMessageError(error.message || error);
-      }
-    } catch (error: any) {
-      this.emit('error', error);
-      throw error;
-    }
+    const response = await provider.signAndSubmitTransaction(transaction);
+    if (!response) throw new Error('Transaction failed');
+    return { hash: response.detail.hash };
   }
 
-  async signMessage(message: string): Promise<string> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.hippoWallet;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-      const response = await provider?.signMessage(message);
-      if (response) {
-        return response;
-      } else {
-        throw new Error('Sign Message failed');
-      }
-    } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignMessageError(errMsg));
-      throw error;
-    }
+  protected async requestSignMessage(provider: IHippoWallet, message: string): Promise<string> {
+    const response = await provider.signMessage(message);
+    if (!response) throw new Error('Sign Message failed');
+    return response;
   }
 }
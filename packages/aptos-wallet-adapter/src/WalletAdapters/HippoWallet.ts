@@ -1,21 +1,105 @@
-import { MaybeHexString } from 'aptos';
-import { TransactionPayload, HexEncodedBytes } from 'aptos/src/generated';
+import { HexString, MaybeHexString } from 'aptos';
+import { HexEncodedBytes } from 'aptos/src/generated';
 import { WEBWALLET_URL } from '../config/aptosConstants';
 import {
+  WalletConnectionError,
+  WalletDisconnectedError,
+  WalletError,
+  WalletErrorClass,
   WalletNotConnectedError,
   WalletNotReadyError,
-  WalletSignAndSubmitMessageError
+  WalletSignAndSubmitMessageError,
+  WalletSignMessageError,
+  WalletSignTransactionError,
+  WalletWindowBlockedError,
+  WalletWindowClosedError
 } from '../WalletProviders/errors';
-import { AccountKeys, BaseWalletAdapter, WalletName, WalletReadyState } from './BaseAdapter';
+import {
+  AccountKeys,
+  BaseWalletAdapter,
+  WalletAdapterNetwork,
+  WalletFeatures,
+  WalletName,
+  WalletOperation,
+  WalletReadyState
+} from './BaseAdapter';
+import { JSON_ARGUMENT_ENCODING } from '../utilities/entryFunctionArguments';
+import { AnyTransactionPayload } from '../utilities/bcsPayload';
+import {
+  JsonTransactionOptions,
+  jsonTransactionOptions,
+  TransactionOption,
+  TransactionOptions
+} from '../utilities/transactionOptions';
+import { withTimeout } from '../utilities/util';
+
+interface HexStringObject {
+  hexString: MaybeHexString;
+}
+
+export interface HippoWebAccount {
+  address?: HexStringObject;
+  publicKey?: HexStringObject;
+  authKey?: HexStringObject;
+}
+
+/** What the web wallet sends back for each request method */
+export interface HippoWebResults {
+  connect: HippoWebAccount;
+  signTransaction: { signedTransaction: Uint8Array | number[] | HexEncodedBytes };
+  signAndSubmit: { hash: HexEncodedBytes };
+  signMessage: { signature: HexEncodedBytes };
+}
+
+export type HippoWebMethod = keyof HippoWebResults;
+
+export interface HippoWebRequest {
+  id: number;
+  method: HippoWebMethod;
+  payload?: any;
+  options?: JsonTransactionOptions;
+}
+
+/**
+ * Messages posted by the web wallet. Responses carry the `id` of the request they answer, while
+ * `account` without an id and `disconnected` are pushed by the wallet on its own.
+ */
+export type HippoWebMessage =
+  | ({ id?: number; method: 'account' } & HippoWebAccount)
+  | { id: number; method: 'success'; detail: HippoWebResults[Exclude<HippoWebMethod, 'connect'>] }
+  | { id: number; method: 'fail'; error?: string }
+  | { method: 'disconnected' };
+
+interface PendingRequest {
+  method: HippoWebMethod;
+  popup: Window;
+  resolve(value: any): void;
+  reject(error: WalletError): void;
+}
 
 export const HippoWalletName = 'Hippo Web' as WalletName<'Hippo Web'>;
 
 export interface HippoWalletAdapterConfig {
+  /** URL of the web wallet, only messages from its origin are accepted */
   provider?: string;
-  // network?: WalletAdapterNetwork;
+  network?: WalletAdapterNetwork;
   timeout?: number;
 }
 
+const POPUP_FEATURES =
+  'scrollbars=no,resizable=no,status=no,location=no,toolbar=no,menubar=no,width=440,height=700';
+
+const POPUP_POLL_INTERVAL = 500;
+
+const REQUEST_OPERATIONS: Record<HippoWebMethod, [WalletOperation, WalletErrorClass]> = {
+  connect: ['connect', WalletConnectionError],
+  signTransaction: ['signTransaction', WalletSignTransactionError],
+  signAndSubmit: ['signAndSubmitTransaction', WalletSignAndSubmitMessageError],
+  signMessage: ['signMessage', WalletSignMessageError]
+};
+
+const toHex = (value?: HexStringObject): MaybeHexString | null => value?.hexString || null;
+
 export class HippoWalletAdapter extends BaseWalletAdapter {
   name = HippoWalletName;
 
@@ -23,26 +107,51 @@ export class HippoWalletAdapter extends BaseWalletAdapter {
 
   icon = 'https://ui-test1-22e7c.web.app/static/media/hippo_logo.ecded6bf411652de9b7f.png';
 
-  protected _provider: string | undefined;
+  protected _provider: string;
+
+  protected _origin: string;
+
+  protected _network: WalletAdapterNetwork;
 
-  // protected _network: WalletAdapterNetwork;
   protected _timeout: number;
 
   protected _readyState: WalletReadyState = WalletReadyState.Installed;
 
   protected _connecting: boolean;
 
-  protected _wallet: any | null;
+  protected _wallet: (AccountKeys & { connected: boolean }) | null;
+
+  protected _requests = new Map<number, PendingRequest>();
+
+  protected _nextRequestId = 1;
+
+  protected _listening = false;
+
+  protected argumentEncoding = JSON_ARGUMENT_ENCODING;
+
+  /** The web wallet builds the transaction for the connected account with the other options */
+  supportedTransactionOptions: TransactionOption[] = [
+    'max_gas_amount',
+    'gas_unit_price',
+    'expiration_timestamp_secs',
+    'sequence_number'
+  ];
+
+  /** The web wallet tells when the user switches accounts */
+  get features(): WalletFeatures {
+    return { ...super.features, accountChangeEvents: true };
+  }
 
   constructor({
-    // provider = WEBWALLET_URL,
-    // network = WalletAdapterNetwork.Mainnet,
+    provider = WEBWALLET_URL,
+    network = WalletAdapterNetwork.Devnet,
     timeout = 10000
   }: HippoWalletAdapterConfig = {}) {
     super();
 
-    this._provider = WEBWALLET_URL || 'https://hippo-wallet-test.web.app';
-    // this._network = network;
+    this._provider = provider;
+    this._origin = new URL(provider).origin;
+    this._network = network;
     this._timeout = timeout;
     this._connecting = false;
     this._wallet = null;
@@ -69,45 +178,43 @@ export class HippoWalletAdapter extends BaseWalletAdapter {
     return this._readyState;
   }
 
-  handleMessage = (
-    e: MessageEvent<{
-      id: number;
-      method: string;
-      address?: {
-        hexString: MaybeHexString;
-      };
-      publicKey?: {
-        hexString: MaybeHexString;
-      };
-      authKey?: {
-        hexString: MaybeHexString;
-      };
-      detail?: {
-        hash: MaybeHexString;
-      };
-      error?: string;
-    }>
-  ): void => {
-    if (e.origin === this._provider) {
-      if (e.data.method === 'account') {
-        this._wallet = {
-          connected: true,
-          publicKey: e.data.publicKey || null,
-          address: e.data.address || null,
-          authKey: e.data.authKey || null
-        };
-        this.emit('connect', this._wallet);
-      } else if (e.data.method === 'success') {
-        this.emit('success', e.data.detail?.hash);
-      } else if (e.data.method === 'fail') {
-        this.emit('error', new WalletSignAndSubmitMessageError(e.data.error));
-      } else if (e.data.method === 'disconnected') {
-        this.disconnect();
+  get network(): WalletAdapterNetwork {
+    return this._network;
+  }
+
+  handleMessage = (e: MessageEvent<HippoWebMessage>): void => {
+    if (e.origin !== this._origin || !e.data) return;
+    const message = e.data;
+
+    if (message.method === 'disconnected') {
+      void this.disconnect();
+      return;
+    }
+
+    const request = 'id' in message && message.id ? this._requests.get(message.id) : undefined;
+    if (!request) {
+      // The wallet switched accounts on its own
+      if (message.method === 'account' && !message.id && this._wallet) {
+        this._setAccount(message);
+        this.emit('accountChange', this.publicAccount);
       }
+      return;
+    }
+    // Only the popup that got the request may answer it
+    if (e.source && e.source !== request.popup) return;
+
+    if (message.method === 'fail') {
+      request.reject(
+        this.toWalletError(message.error || 'Request failed', ...REQUEST_OPERATIONS[request.method])
+      );
+    } else if (message.method === 'account') {
+      request.resolve(message);
+    } else if (message.method === 'success') {
+      request.resolve(message.detail);
     }
   };
 
-  async connect(): Promise<void> {
+  async connect(timeout = this._timeout): Promise<void> {
     try {
       if (this.connected || this.connecting) return;
       if (
@@ -120,11 +227,16 @@ export class HippoWalletAdapter extends BaseWalletAdapter {
 
       this._connecting = true;
 
-      window.addEventListener('message', this.handleMessage);
+      const account = await this._request('connect', timeout);
+      if (!account.address) throw new WalletNotConnectedError('No connect response');
+      this._setAccount(account);
       window.addEventListener('beforeunload', this._beforeUnload);
+
+      this.emit('connect', this.publicAccount.publicKey || this.publicAccount.address!);
     } catch (error: any) {
-      this.emit('error', error);
-      throw error;
+      const walletError = this.toWalletError(error, 'connect', WalletConnectionError);
+      this.emit('error', walletError);
+      throw walletError;
     } finally {
       this._connecting = false;
     }
@@ -133,91 +245,140 @@ export class HippoWalletAdapter extends BaseWalletAdapter {
   async disconnect(): Promise<void> {
     window.removeEventListener('message', this.handleMessage);
     window.removeEventListener('beforeunload', this._beforeUnload);
+    this._listening = false;
+    this._requests.forEach((request) =>
+      request.reject(new WalletDisconnectedError('Wallet disconnected'))
+    );
     this._wallet = null;
     this.emit('disconnect');
   }
 
-  async signTransaction(transaction: TransactionPayload): Promise<Uint8Array> {
+  async signTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout = this._timeout
+  ): Promise<Uint8Array> {
     try {
-      const request = new URLSearchParams({
-        request: JSON.stringify({
-          method: 'signTransaction',
-          payload: transaction
-        }),
-        origin: window.location.origin,
-        isPopUp: 'true'
-      }).toString();
-      const popup = window.open(
-        `${WEBWALLET_URL}?${request}`,
-        'Transaction Confirmation',
-        'scrollbars=no,resizable=no,status=no,location=no,toolbar=no,menubar=no,width=440,height=700'
+      if (!this._wallet) throw new WalletNotConnectedError();
+      this.checkTransactionOptions(options);
+      const { signedTransaction } = await this._request(
+        'signTransaction',
+        timeout,
+        await this.coercePayload(transaction),
+        jsonTransactionOptions(options)
       );
-      if (!popup) throw new WalletNotConnectedError();
-      const promise = await new Promise((resolve, reject) => {
-        this.once('success', resolve);
-        this.once('error', reject);
-      });
-      return promise as Uint8Array;
+      if (typeof signedTransaction === 'string') {
+        return new HexString(signedTransaction).toUint8Array();
+      }
+      return Uint8Array.from(signedTransaction);
     } catch (error: any) {
-      this.emit('error', error);
-      throw error;
+      const walletError = this.toWalletError(error, 'signTransaction', WalletSignTransactionError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
   async signAndSubmitTransaction(
-    transaction: TransactionPayload
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout = this._timeout
   ): Promise<{ hash: HexEncodedBytes }> {
     try {
-      const request = new URLSearchParams({
-        request: JSON.stringify({
-          method: 'signAndSubmit',
-          payload: transaction
-        }),
-        origin: window.location.origin
-      }).toString();
-      const popup = window.open(
-        `${WEBWALLET_URL}?${request}`,
-        'Transaction Confirmation',
-        'scrollbars=no,resizable=no,status=no,location=no,toolbar=no,menubar=no,width=440,height=700'
+      if (!this._wallet) throw new WalletNotConnectedError();
+      this.checkTransactionOptions(options);
+      const { hash } = await this._request(
+        'signAndSubmit',
+        timeout,
+        await this.coercePayload(transaction),
+        jsonTransactionOptions(options)
       );
-      if (!popup) throw new WalletNotConnectedError();
-      const promise = await new Promise((resolve, reject) => {
-        this.once('success', resolve);
-        this.once('error', reject);
-      });
-      return promise as { hash: HexEncodedBytes };
+      return { hash };
     } catch (error: any) {
-      this.emit('error', error);
-      throw error;
+      const walletError = this.toWalletError(
+        error,
+        'signAndSubmitTransaction',
+        WalletSignAndSubmitMessageError
+      );
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  async signMessage(message: string): Promise<string> {
+  protected async signRawMessage(message: string, timeout = this._timeout): Promise<string> {
     try {
-      const request = new URLSearchParams({
-        request: JSON.stringify({
-          method: 'signMessage',
-          payload: message
+      if (!this._wallet) throw new WalletNotConnectedError();
+      const { signature } = await this._request('signMessage', timeout, message);
+      return signature;
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'signMessage', WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  /**
+   * Opens the wallet in a popup with a request tagged by a fresh id and waits for the response
+   * with the same id. Rejects when the popup can't be opened or is closed before answering.
+   */
+  protected async _request<M extends HippoWebMethod>(
+    method: M,
+    timeout: number,
+    payload?: any,
+    options?: JsonTransactionOptions
+  ): Promise<HippoWebResults[M]> {
+    const id = this._nextRequestId++;
+    const request: HippoWebRequest = { id, method, payload, options };
+    const query = new URLSearchParams({
+      request: JSON.stringify(request),
+      origin: window.location.origin,
+      isPopUp: 'true'
+    }).toString();
+
+    this._listen();
+    const popup = window.open(`${this._provider}?${query}`, `hippo-wallet-${id}`, POPUP_FEATURES);
+    if (!popup || popup.closed) throw new WalletWindowBlockedError('Wallet popup was blocked');
+
+    let timer: ReturnType<typeof setInterval> | undefined;
+    try {
+      return await withTimeout(
+        new Promise<HippoWebResults[M]>((resolve, reject) => {
+          this._requests.set(id, { method, popup, resolve, reject });
+
+          let closed = false;
+          timer = setInterval(() => {
+            if (!popup.closed) return;
+            // Give a response posted right before the window closed one more tick to arrive
+            if (!closed) {
+              closed = true;
+              return;
+            }
+            reject(new WalletWindowClosedError('Wallet popup was closed'));
+          }, POPUP_POLL_INTERVAL);
         }),
-        origin: window.location.origin
-      }).toString();
-      const popup = window.open(
-        `${WEBWALLET_URL}?${request}`,
-        'Transaction Confirmation',
-        'scrollbars=no,resizable=no,status=no,location=no,toolbar=no,menubar=no,width=440,height=700'
+        timeout,
+        method
       );
-      if (!popup) throw new WalletNotConnectedError();
-      const promise = await new Promise((resolve, reject) => {
-        this.once('success', resolve);
-        this.once('error', reject);
-      });
-      return promise as string;
-    } catch (error: any) {
-      this.emit('error', error);
-      throw error;
+    } finally {
+      clearInterval(timer);
+      this._requests.delete(id);
     }
   }
 
+  private _listen(): void {
+    if (this._listening) return;
+    window.addEventListener('message', this.handleMessage);
+    this._listening = true;
+  }
+
+  private _setAccount(account: HippoWebAccount): void {
+    this._wallet = {
+      connected: true,
+      publicKey: toHex(account.publicKey),
+      address: toHex(account.address),
+      authKey: toHex(account.authKey)
+    };
+  }
+
   private _beforeUnload = (): void => {
     void this.disconnect();
   };
@@ -0,0 +1,370 @@
+import { MaybeHexString, TxnBuilderTypes } from 'aptos';
+import { TransactionPayload, HexEncodedBytes } from 'aptos/src/generated';
+import {
+  WalletAccountError,
+  WalletConnectionError,
+  WalletDisconnectionError,
+  WalletNotConnectedError,
+  WalletNotReadyError,
+  WalletSignAndSubmitMessageError,
+  WalletSignMessageError,
+  WalletSignTransactionError
+} from '../WalletProviders/errors';
+import {
+  AccountKeys,
+  BaseWalletAdapter,
+  toWalletAdapterNetwork,
+  WalletAdapterNetwork,
+  WalletReadyState
+} from './BaseAdapter';
+import { AnyTransactionPayload, isBcsPayload } from '../utilities/bcsPayload';
+import { ArgumentEncoding, JSON_ARGUMENT_ENCODING } from '../utilities/entryFunctionArguments';
+import { TransactionOptions } from '../utilities/transactionOptions';
+import { sameAddress, withTimeout } from '../utilities/util';
+import { discoverWallet } from '../utilities/walletDiscovery';
+
+export interface InjectedWalletAccount {
+  address: MaybeHexString;
+  publicKey?: MaybeHexString;
+  authKey?: MaybeHexString;
+}
+
+export interface InjectedWalletAdapterConfig {
+  network?: WalletAdapterNetwork;
+  timeout?: number;
+  /** How long (ms) to look for the wallet before settling on `NotDetected` */
+  discoveryTimeout?: number;
+  /** Overrides the wallet's deep-link template, see `WalletAdapterProps.deepLink` */
+  deepLink?: string;
+}
+
+/**
+ * Shared implementation for wallets that inject an API object into `window`.
+ * Subclasses only describe how to find the provider and how to talk to it, detection, connection
+ * state, timeouts and error reporting are handled here.
+ */
+export abstract class InjectedWalletAdapter<Provider> extends BaseWalletAdapter {
+  protected _provider: Provider | undefined;
+
+  protected _network: WalletAdapterNetwork;
+
+  protected _timeout: number;
+
+  protected _readyState: WalletReadyState;
+
+  protected _connecting: boolean;
+
+  protected _wallet: (InjectedWalletAccount & { isConnected: boolean }) | null;
+
+  /** Most injected wallets pass payloads on to the fullnode JSON API */
+  protected argumentEncoding: ArgumentEncoding = JSON_ARGUMENT_ENCODING;
+
+  constructor({
+    network = WalletAdapterNetwork.Devnet,
+    timeout = 10000,
+    discoveryTimeout,
+    deepLink
+  }: InjectedWalletAdapterConfig = {}) {
+    super();
+
+    this.deepLink = deepLink;
+    this._readyState = this.undetectedReadyState;
+
+    this._provider = typeof window !== 'undefined' ? this.detectProvider() : undefined;
+    this._network = network;
+    this._timeout = timeout;
+    this._connecting = false;
+    this._wallet = null;
+
+    // Also on mobile, where in-app browsers inject the wallet's API like extensions do
+    if (typeof window !== 'undefined') {
+      this._stopDiscovery = discoverWallet(
+        () => {
+          if (this.detectProvider()) {
+            this._readyState = WalletReadyState.Installed;
+            this.emit('readyStateChange', this._readyState);
+            return true;
+          }
+          return false;
+        },
+        {
+          timeout: discoveryTimeout,
+          // Lets the UI stop waiting for the wallet
+          onTimeout: () => this.emit('readyStateChange', this._readyState)
+        }
+      );
+    }
+  }
+
+  /** Returns the injected API, eg. `window.aptos`, or undefined when it isn't there (yet) */
+  protected abstract detectProvider(): Provider | undefined;
+
+  /** Asks the wallet for access and resolves with the account the user approved */
+  protected abstract requestConnect(provider: Provider): Promise<InjectedWalletAccount>;
+
+  protected abstract requestSignTransaction(
+    provider: Provider,
+    transaction: TransactionPayload,
+    options?: TransactionOptions
+  ): Promise<Uint8Array>;
+
+  protected abstract requestSignAndSubmitTransaction(
+    provider: Provider,
+    transaction: TransactionPayload,
+    options?: TransactionOptions
+  ): Promise<{ hash: HexEncodedBytes }>;
+
+  /**
+   * Implemented by wallets that take BCS payloads as they are, the others get BCS payloads
+   * converted to JSON
+   */
+  protected requestSignBcsTransaction?(
+    provider: Provider,
+    transaction: TxnBuilderTypes.TransactionPayload,
+    options?: TransactionOptions
+  ): Promise<Uint8Array>;
+
+  protected requestSignAndSubmitBcsTransaction?(
+    provider: Provider,
+    transaction: TxnBuilderTypes.TransactionPayload,
+    options?: TransactionOptions
+  ): Promise<{ hash: HexEncodedBytes }>;
+
+  protected abstract requestSignMessage(provider: Provider, message: string): Promise<string>;
+
+  protected abstract requestDisconnect(provider: Provider): Promise<void>;
+
+  /** Name of the network the wallet is on, for wallets that expose it */
+  protected fetchNetwork?(provider: Provider): Promise<string | undefined>;
+
+  /**
+   * Subscribes to the wallet's own change callbacks while connecting, for wallets that have them.
+   * Implementations register through `subscribe` and forward to `_handleNetworkChange` and
+   * `_handleAccountChange`.
+   */
+  protected listen?(provider: Provider): Promise<void>;
+
+  /** Releases the callbacks registered through `subscribe` */
+  private _subscriptions: (() => void)[] = [];
+
+  get publicAccount(): AccountKeys {
+    return {
+      publicKey: this._wallet?.publicKey || null,
+      address: this._wallet?.address || null,
+      authKey: this._wallet?.authKey || null
+    };
+  }
+
+  get connecting(): boolean {
+    return this._connecting;
+  }
+
+  get connected(): boolean {
+    return !!this._wallet?.isConnected;
+  }
+
+  get readyState(): WalletReadyState {
+    return this._readyState;
+  }
+
+  get network(): WalletAdapterNetwork {
+    return this._network;
+  }
+
+  protected get provider(): Provider | undefined {
+    return this._provider || this.detectProvider();
+  }
+
+  async connect(timeout = this._timeout): Promise<void> {
+    try {
+      if (this.connected || this.connecting) return;
+      // Not injected here, the wallet connects once its in-app browser reopens the dApp
+      if (this._readyState === WalletReadyState.Loadable && this.openDeepLink()) return;
+      if (
+        !(
+          this._readyState === WalletReadyState.Loadable ||
+          this._readyState === WalletReadyState.Installed
+        )
+      )
+        throw new WalletNotReadyError();
+      this._connecting = true;
+
+      const provider = this.provider;
+      if (!provider) throw new WalletNotReadyError();
+
+      const { account, network } = await withTimeout(
+        this.openSession(provider),
+        timeout,
+        'connect'
+      );
+      if (network) this._network = network;
+      this._wallet = {
+        ...account,
+        isConnected: true
+      };
+
+      this.emit('connect', this._wallet.publicKey || this._wallet.address);
+    } catch (error: any) {
+      this.unsubscribe();
+      const walletError = this.toWalletError(error, 'connect', WalletConnectionError);
+      this.emit('error', walletError);
+      throw walletError;
+    } finally {
+      this._connecting = false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const wallet = this._wallet;
+    const provider = this.provider;
+    if (wallet) {
+      this._wallet = null;
+      this.unsubscribe();
+
+      try {
+        if (provider) await this.requestDisconnect(provider);
+      } catch (error: any) {
+        this.emit('error', this.toWalletError(error, 'disconnect', WalletDisconnectionError));
+      }
+    }
+
+    this.emit('disconnect');
+  }
+
+  async signTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout = this._timeout
+  ): Promise<Uint8Array> {
+    try {
+      const provider = this.provider;
+      if (!this._wallet || !provider) throw new WalletNotConnectedError();
+      this.checkTransactionOptions(options);
+
+      const request =
+        isBcsPayload(transaction) && this.requestSignBcsTransaction
+          ? this.requestSignBcsTransaction(provider, transaction, options)
+          : this.coercePayload(transaction).then((payload) =>
+              this.requestSignTransaction(provider, payload, options)
+            );
+      return await withTimeout(request, timeout, 'signTransaction');
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'signTransaction', WalletSignTransactionError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  async signAndSubmitTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout = this._timeout
+  ): Promise<{ hash: HexEncodedBytes }> {
+    try {
+      const provider = this.provider;
+      if (!this._wallet || !provider) throw new WalletNotConnectedError();
+      this.checkTransactionOptions(options);
+
+      const request =
+        isBcsPayload(transaction) && this.requestSignAndSubmitBcsTransaction
+          ? this.requestSignAndSubmitBcsTransaction(provider, transaction, options)
+          : this.coercePayload(transaction).then((payload) =>
+              this.requestSignAndSubmitTransaction(provider, payload, options)
+            );
+      return await withTimeout(request, timeout, 'signAndSubmitTransaction');
+    } catch (error: any) {
+      const walletError = this.toWalletError(
+        error,
+        'signAndSubmitTransaction',
+        WalletSignAndSubmitMessageError
+      );
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  protected async signRawMessage(message: string, timeout = this._timeout): Promise<string> {
+    try {
+      const provider = this.provider;
+      if (!this._wallet || !provider) throw new WalletNotConnectedError();
+
+      return await withTimeout(this.requestSignMessage(provider, message), timeout, 'signMessage');
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'signMessage', WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  /**
+   * Registers `listener` through one of the wallet's callbacks, eg. `onNetworkChange`, until the
+   * session ends. Wallets without a way to unregister keep calling the listener, it then no longer
+   * forwards anything.
+   */
+  protected async subscribe<Args extends unknown[]>(
+    register: (listener: (...args: Args) => unknown) => unknown,
+    listener: (...args: Args) => unknown
+  ): Promise<void> {
+    let active = true;
+    this._subscriptions.push(() => {
+      active = false;
+    });
+    const unsubscribe = await register((...args) => (active ? listener(...args) : undefined));
+    if (typeof unsubscribe === 'function') {
+      if (active) this._subscriptions.push(() => unsubscribe());
+      else unsubscribe();
+    }
+  }
+
+  private unsubscribe(): void {
+    this._subscriptions.splice(0).forEach((release) => release());
+  }
+
+  /** Asks for the account, then for the network and the wallet's callbacks */
+  private async openSession(
+    provider: Provider
+  ): Promise<{ account: InjectedWalletAccount; network?: WalletAdapterNetwork }> {
+    const account = await this.requestConnect(provider);
+    if (!account?.address) {
+      throw new WalletNotConnectedError('No connect response');
+    }
+    const network = toWalletAdapterNetwork(await this.fetchNetwork?.(provider));
+    // Callbacks firing before the session is set are ignored, a failure releases them again
+    await this.listen?.(provider);
+    return { account, network };
+  }
+
+  protected _handleNetworkChange = (networkName?: string): void => {
+    const network = toWalletAdapterNetwork(networkName);
+    if (!this._wallet || !network || network === this._network) return;
+    this._network = network;
+    this.emit('networkChange', this._network);
+  };
+
+  /**
+   * Wallets report a missing account when the dApp lost access to it, which ends the session.
+   * Accepts a promise for wallets that only report the address and need a lookup for the keys.
+   */
+  protected _handleAccountChange = async (
+    newAccount: InjectedWalletAccount | null | undefined | Promise<InjectedWalletAccount | null>
+  ): Promise<void> => {
+    if (!this._wallet) return;
+    try {
+      const account = await newAccount;
+      if (!this._wallet) return;
+      if (!account?.address) {
+        await this.disconnect();
+        return;
+      }
+      // Wallets don't always report an address padded and cased the same way
+      if (sameAddress(account.address, this._wallet.address)) return;
+      this._wallet = {
+        ...account,
+        isConnected: true
+      };
+      this.emit('accountChange', this.publicAccount);
+    } catch (error: any) {
+      this.emit('error', this.toWalletError(error, 'accountChange', WalletAccountError));
+    }
+  };
+}
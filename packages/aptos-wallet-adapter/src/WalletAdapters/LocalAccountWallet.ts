@@ -0,0 +1,301 @@
+import { AptosAccount, HexString, MaybeHexString } from 'aptos';
+import { HexEncodedBytes } from 'aptos/src/generated';
+import { LOCAL_NODE_URL } from '../config/aptosConstants';
+import {
+  WalletAccountError,
+  WalletConnectionError,
+  WalletNotConnectedError,
+  WalletSignAndSubmitMessageError,
+  WalletSignMessageError,
+  WalletSignTransactionError,
+  WalletUserRejectedError
+} from '../WalletProviders/errors';
+import {
+  AccountKeys,
+  Address,
+  BaseWalletAdapter,
+  WalletAdapterNetwork,
+  WalletName,
+  WalletReadyState
+} from './BaseAdapter';
+import { AnyTransactionPayload } from '../utilities/bcsPayload';
+import { BCS_ARGUMENT_ENCODING } from '../utilities/entryFunctionArguments';
+import { TRANSACTION_OPTIONS, TransactionOptions } from '../utilities/transactionOptions';
+import { sameAddress, withTimeout } from '../utilities/util';
+
+export const LocalAccountWalletName = 'Local Account' as WalletName<'Local Account'>;
+
+export type LocalAccountOperation =
+  | 'connect'
+  | 'signTransaction'
+  | 'signAndSubmitTransaction'
+  | 'signMessage'
+  | 'switchAccount';
+
+export interface LocalAccountFaults {
+  /** Delay (ms) before every operation goes through, eg. to exercise loading states or timeouts */
+  latency?: number;
+  /** Operations that fail as if the user declined the prompt */
+  reject?: LocalAccountOperation[];
+  /** Operations that fail with a wallet-side error */
+  fail?: LocalAccountOperation[];
+}
+
+export interface LocalAccountWalletAdapterConfig {
+  /** Ed25519 private key, a random account is generated when no key or mnemonic is given */
+  privateKey?: MaybeHexString | Uint8Array;
+  mnemonic?: string;
+  derivationPath?: string;
+  /** Further accounts the wallet holds, the dApp may switch to them once connected */
+  accounts?: AptosAccount[];
+  nodeUrl?: string;
+  network?: WalletAdapterNetwork;
+  timeout?: number;
+  faults?: LocalAccountFaults;
+}
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/637'/0'/0'/0'";
+
+const toAccountKeys = (account: AptosAccount): AccountKeys => ({
+  publicKey: account.pubKey().hex(),
+  address: account.address().hex(),
+  authKey: account.authKey().hex()
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wallet backed by an in-memory `AptosAccount`, for tests and localnet development. Signs
+ * locally and submits through `nodeUrl` without any browser extension or user prompt.
+ */
+export class LocalAccountWalletAdapter extends BaseWalletAdapter {
+  name = LocalAccountWalletName;
+
+  url = 'https://aptos.dev/cli-tools/aptos-cli-tool/use-aptos-cli';
+
+  icon = 'https://miro.medium.com/fit/c/176/176/1*Gf747eyRywU8Img0tK5wvw.png';
+
+  protected _account: AptosAccount;
+
+  protected _accounts: AptosAccount[];
+
+  protected _nodeUrl: string;
+
+  protected argumentEncoding = BCS_ARGUMENT_ENCODING;
+
+  /** The transaction is built here, so every option is honoured */
+  supportedTransactionOptions = TRANSACTION_OPTIONS;
+
+  protected _network: WalletAdapterNetwork;
+
+  protected _timeout: number;
+
+  protected _faults: LocalAccountFaults;
+
+  protected _readyState: WalletReadyState = WalletReadyState.Loadable;
+
+  protected _connecting: boolean;
+
+  protected _wallet: AptosAccount | null;
+
+  constructor({
+    privateKey,
+    mnemonic,
+    derivationPath = DEFAULT_DERIVATION_PATH,
+    accounts = [],
+    nodeUrl = LOCAL_NODE_URL,
+    network = WalletAdapterNetwork.Devnet,
+    timeout = 10000,
+    faults = {}
+  }: LocalAccountWalletAdapterConfig = {}) {
+    super();
+
+    if (mnemonic) {
+      this._account = AptosAccount.fromDerivePath(derivationPath, mnemonic);
+    } else if (privateKey) {
+      this._account = new AptosAccount(
+        privateKey instanceof Uint8Array
+          ? privateKey
+          : new HexString(privateKey.toString()).toUint8Array()
+      );
+    } else {
+      this._account = new AptosAccount();
+    }
+    this._accounts = [this._account, ...accounts];
+    this._nodeUrl = nodeUrl;
+    this._network = network;
+    this._timeout = timeout;
+    this._faults = faults;
+    this._connecting = false;
+    this._wallet = null;
+  }
+
+  get publicAccount(): AccountKeys {
+    return this._wallet
+      ? toAccountKeys(this._wallet)
+      : { publicKey: null, address: null, authKey: null };
+  }
+
+  get connecting(): boolean {
+    return this._connecting;
+  }
+
+  get connected(): boolean {
+    return !!this._wallet;
+  }
+
+  get readyState(): WalletReadyState {
+    return this._readyState;
+  }
+
+  get network(): WalletAdapterNetwork {
+    return this._network;
+  }
+
+  /** The wrapped account, eg. to fund it from a faucet before connecting */
+  get account(): AptosAccount {
+    return this._account;
+  }
+
+  /** Replaces the injected faults, affecting the operations started afterwards */
+  setFaults(faults: LocalAccountFaults): void {
+    this._faults = faults;
+  }
+
+  async connect(timeout = this._timeout): Promise<void> {
+    try {
+      if (this.connected || this.connecting) return;
+      this._connecting = true;
+
+      await withTimeout(this._applyFaults('connect'), timeout, 'connect');
+      this._wallet = this._account;
+
+      this.emit('connect', this._wallet.pubKey().hex());
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'connect', WalletConnectionError);
+      this.emit('error', walletError);
+      throw walletError;
+    } finally {
+      this._connecting = false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this._wallet = null;
+    this.emit('disconnect');
+  }
+
+  async signTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout = this._timeout
+  ): Promise<Uint8Array> {
+    try {
+      const wallet = this._wallet;
+      if (!wallet) throw new WalletNotConnectedError();
+
+      return await withTimeout(
+        this._sign(wallet, transaction, options, 'signTransaction'),
+        timeout,
+        'signTransaction'
+      );
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'signTransaction', WalletSignTransactionError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  async signAndSubmitTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout = this._timeout
+  ): Promise<{ hash: HexEncodedBytes }> {
+    try {
+      const wallet = this._wallet;
+      if (!wallet) throw new WalletNotConnectedError();
+
+      const { hash } = await withTimeout(
+        this._sign(wallet, transaction, options, 'signAndSubmitTransaction').then((signedTxn) =>
+          this.client.submitSignedBCSTransaction(signedTxn)
+        ),
+        timeout,
+        'signAndSubmitTransaction'
+      );
+      return { hash };
+    } catch (error: any) {
+      const walletError = this.toWalletError(
+        error,
+        'signAndSubmitTransaction',
+        WalletSignAndSubmitMessageError
+      );
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  async getAccounts(): Promise<AccountKeys[]> {
+    try {
+      if (!this._wallet) throw new WalletNotConnectedError();
+      return this._accounts.map(toAccountKeys);
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'getAccounts', WalletAccountError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  async switchAccount(address: Address, timeout = this._timeout): Promise<void> {
+    try {
+      if (!this._wallet) throw new WalletNotConnectedError();
+      const account = this._accounts.find((candidate) => sameAddress(candidate.address(), address));
+      if (!account) throw new WalletAccountError(`The wallet holds no account ${address}`);
+
+      await withTimeout(this._applyFaults('switchAccount'), timeout, 'switchAccount');
+      if (account === this._wallet) return;
+      this._wallet = account;
+      this.emit('accountChange', this.publicAccount);
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'switchAccount', WalletAccountError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  protected async signRawMessage(message: string, timeout = this._timeout): Promise<string> {
+    try {
+      const wallet = this._wallet;
+      if (!wallet) throw new WalletNotConnectedError();
+
+      await withTimeout(this._applyFaults('signMessage'), timeout, 'signMessage');
+      return wallet.signBuffer(new TextEncoder().encode(message)).hex();
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'signMessage', WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  get nodeUrl(): string {
+    return this._nodeUrl;
+  }
+
+  private async _sign(
+    wallet: AptosAccount,
+    transaction: AnyTransactionPayload,
+    options: TransactionOptions | undefined,
+    operation: LocalAccountOperation
+  ): Promise<Uint8Array> {
+    this.checkTransactionOptions(options);
+    await this._applyFaults(operation);
+    const rawTxn = await this.buildRawTransaction(transaction, options);
+    return this.client.signTransaction(wallet, rawTxn);
+  }
+
+  private async _applyFaults(operation: LocalAccountOperation): Promise<void> {
+    const { latency, reject, fail } = this._faults;
+    if (latency) await sleep(latency);
+    if (reject?.includes(operation)) throw new WalletUserRejectedError('User rejected the request');
+    if (fail?.includes(operation)) throw new Error(`Simulated ${operation} failure`);
+  }
+}
@@ -1,20 +1,18 @@
 import { MaybeHexString } from 'aptos';
 import { TransactionPayload, HexEncodedBytes } from 'aptos/src/generated';
+import { WalletUserRejectedError } from '../WalletProviders/errors';
 import {
-  WalletDisconnectionError,
-  WalletNotConnectedError,
-  WalletNotReadyError,
-  WalletSignAndSubmitMessageError,
-  WalletSignMessageError,
-  WalletSignTransactionError
-} from '../WalletProviders/errors';
+  JsonTransactionOptions,
+  jsonTransactionOptions,
+  TransactionOption,
+  TransactionOptions
+} from '../utilities/transactionOptions';
+import { WalletFeatures, WalletName } from './BaseAdapter';
 import {
-  AccountKeys,
-  BaseWalletAdapter,
-  scopePollingDetectionStrategy,
-  WalletName,
-  WalletReadyState
-} from './BaseAdapter';
+  InjectedWalletAccount,
+  InjectedWalletAdapter,
+  InjectedWalletAdapterConfig
+} from './InjectedWalletAdapter';
 
 interface ConnectPontemAccount {
   address: MaybeHexString;
@@ -23,11 +21,10 @@ interface ConnectPontemAccount {
   status: number;
 }
 
-interface PontemAccount {
-  address: MaybeHexString;
-  publicKey?: MaybeHexString;
-  authKey?: MaybeHexString;
-  isConnected: boolean;
+interface PontemNetwork {
+  name: string;
+  api?: string;
+  chainId?: string;
 }
 interface IPontemWallet {
   connect: () => Promise<ConnectPontemAccount>;
@@ -36,7 +33,7 @@ interface IPontemWallet {
   generateTransaction(sender: MaybeHexString, payload: any): Promise<any>;
   signAndSubmit(
     transaction: TransactionPayload,
-    options?: any
+    options?: JsonTransactionOptions
   ): Promise<{
     success: boolean;
     result: {
@@ -44,7 +41,10 @@ interface IPontemWallet {
     };
   }>;
   isConnected(): Promise<boolean>;
-  signTransaction(transaction: TransactionPayload, options?: any): Promise<Uint8Array>;
+  signTransaction(
+    transaction: TransactionPayload,
+    options?: JsonTransactionOptions
+  ): Promise<Uint8Array>;
   signMessage(message: string): Promise<{
     success: boolean;
     result: {
@@ -52,6 +52,9 @@ interface IPontemWallet {
     };
   }>;
   disconnect(): Promise<void>;
+  network?(): Promise<PontemNetwork>;
+  onChangeNetwork?(listener: (network: PontemNetwork) => void): Promise<void>;
+  onChangeAccount?(listener: (address: MaybeHexString | undefined) => void): Promise<void>;
 }
 
 interface PontemWindow extends Window {
@@ -62,13 +65,11 @@ declare const window: PontemWindow;
 
 export const PontemWalletName = 'Pontem' as WalletName<'Pontem'>;
 
-export interface PontemWalletAdapterConfig {
+export interface PontemWalletAdapterConfig extends InjectedWalletAdapterConfig {
   provider?: IPontemWallet;
-  // network?: WalletAdapterNetwork;
-  timeout?: number;
 }
 
-export class PontemWalletAdapter extends BaseWalletAdapter {
+export class PontemWalletAdapter extends InjectedWalletAdapter<IPontemWallet> {
   name = PontemWalletName;
 
   url = 'https://chrome.google.com/webstore/detail/pontem-wallet/phkbamefinggmakgklpkljjmgibohnba';
@@ -76,172 +77,85 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
   icon =
     'https://www.gitbook.com/cdn-cgi/image/width=20,height=20,fit=contain,dpr=2,format=auto/https%3A%2F%2F736486047-files.gitbook.io%2F~%2Ffiles%2Fv0%2Fb%2Fgitbook-legacy-files%2Fo%2Fspaces%252F-MVVJKmKQGx983dZy_jr%252Favatar-1619180126965.png%3Fgeneration%3D1619180127194239%26alt%3Dmedia';
 
-  protected _provider: IPontemWallet | undefined;
-
-  // protected _network: WalletAdapterNetwork;
-  protected _timeout: number;
-
-  protected _readyState: WalletReadyState =
-    typeof window === 'undefined' || typeof document === 'undefined'
-      ? WalletReadyState.Unsupported
-      : WalletReadyState.NotDetected;
-
-  protected _connecting: boolean;
-
-  protected _wallet: PontemAccount | null;
-
-  constructor({
-    // provider,
-    // network = WalletAdapterNetwork.Mainnet,
-    timeout = 10000
-  }: PontemWalletAdapterConfig = {}) {
-    super();
-
-    this._provider = typeof window !== 'undefined' ? window.pontem : undefined;
-    // this._network = network;
-    this._timeout = timeout;
-    this._connecting = false;
-    this._wallet = null;
-
-    if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
-      scopePollingDetectionStrategy(() => {
-        if (window.pontem) {
-          this._readyState = WalletReadyState.Installed;
-          this.emit('readyStateChange', this._readyState);
-          return true;
-        }
-        return false;
-      });
-    }
-  }
+  /** Pontem takes the gas and expiration options along with the transaction */
+  supportedTransactionOptions: TransactionOption[] = [
+    'max_gas_amount',
+    'gas_unit_price',
+    'expiration_timestamp_secs'
+  ];
 
-  get publicAccount(): AccountKeys {
-    return {
-      publicKey: this._wallet?.publicKey || null,
-      address: this._wallet?.address || null,
-      authKey: this._wallet?.authKey || null
-    };
+  /** Pontem reports its network and account switches */
+  get features(): WalletFeatures {
+    return { ...super.features, networkInfo: true, accountChangeEvents: true };
   }
 
-  get connecting(): boolean {
-    return this._connecting;
+  constructor(config: PontemWalletAdapterConfig = {}) {
+    super(config);
   }
 
-  get connected(): boolean {
-    return !!this._wallet?.isConnected;
+  protected detectProvider(): IPontemWallet | undefined {
+    return window.pontem;
   }
 
-  get readyState(): WalletReadyState {
-    return this._readyState;
+  protected async requestConnect(provider: IPontemWallet): Promise<InjectedWalletAccount> {
+    if (await provider.isConnected()) {
+      await provider.disconnect();
+    }
+    const response = await provider.connect();
+    if (!response) throw new WalletUserRejectedError('User has rejected the connection');
+    return {
+      address: await provider.account(),
+      publicKey: await provider.publicKey()
+    };
   }
 
-  async connect(): Promise<void> {
-    try {
-      if (this.connected || this.connecting) return;
-      if (
-        !(
-          this._readyState === WalletReadyState.Loadable ||
-          this._readyState === WalletReadyState.Installed
-        )
-      )
-        throw new WalletNotReadyError();
-      this._connecting = true;
-
-      const provider = this._provider || window.pontem;
-      const isConnected = await provider?.isConnected();
-      if (isConnected) {
-        await provider?.disconnect();
-      }
-      const response = await provider?.connect();
-
-      if (!response) {
-        throw new WalletNotConnectedError('No connect response');
-      }
-
-      const walletAccount = await provider?.account();
-      const publicKey = await provider?.publicKey();
-      if (walletAccount) {
-        this._wallet = {
-          address: walletAccount,
-          publicKey,
-          isConnected: true
-        };
-      }
-      this.emit('connect', this._wallet?.address || '');
-    } catch (error: any) {
-      this.emit('error', new Error('User has rejected the connection'));
-      throw error;
-    } finally {
-      this._connecting = false;
-    }
+  protected async requestDisconnect(provider: IPontemWallet): Promise<void> {
+    await provider.disconnect();
   }
 
-  async disconnect(): Promise<void> {
-    const wallet = this._wallet;
-    const provider = this._provider || window.pontem;
-    if (wallet) {
-      this._wallet = null;
-
-      try {
-        await provider?.disconnect();
-      } catch (error: any) {
-        this.emit('error', new WalletDisconnectionError(error?.message, error));
-      }
-    }
+  protected async requestSignTransaction(
+    provider: IPontemWallet,
+    transaction: TransactionPayload,
+    options?: TransactionOptions
+  ): Promise<Uint8Array> {
+    return provider.signTransaction(transaction, jsonTransactionOptions(options));
+  }
 
-    this.emit('disconnect');
+  protected async requestSignAndSubmitTransaction(
+    provider: IPontemWallet,
+    transaction: TransactionPayload,
+    options?: TransactionOptions
+  ): Promise<{ hash: HexEncodedBytes }> {
+    const response = await provider.signAndSubmit(transaction, jsonTransactionOptions(options));
+    if (!response) throw new Error('No response');
+    // Pontem resolves with `success: false` instead of rejecting when the user declines
+    if (!response.success) throw new WalletUserRejectedError('User has rejected the transaction');
+    return { hash: response.result.hash };
   }
 
-  async signTransaction(transactionPyld: TransactionPayload, options?: any): Promise<Uint8Array> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.pontem;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-      const response = await provider?.signTransaction(transactionPyld, options);
-
-      return response as Uint8Array;
-    } catch (error: any) {
-      this.emit('error', new WalletSignTransactionError(error));
-      throw error;
-    }
+  protected async requestSignMessage(provider: IPontemWallet, message: string): Promise<string> {
+    const response = await provider.signMessage(message);
+    if (!response) throw new Error('Sign Message failed');
+    if (!response.success) throw new WalletUserRejectedError('User has rejected the message');
+    return response.result.hexString;
   }
 
-  async signAndSubmitTransaction(
-    transactionPyld: TransactionPayload,
-    options?: any
-  ): Promise<{ hash: HexEncodedBytes }> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.pontem;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-      const response = await provider?.signAndSubmit(transactionPyld, options);
-
-      if (!response || !response.success) {
-        throw new Error('No response');
-      }
-      return { hash: response.result.hash };
-    } catch (error: any) {
-      this.emit('error', new WalletSignAndSubmitMessageError(error.error.message));
-      throw error;
-    }
+  protected async fetchNetwork(provider: IPontemWallet): Promise<string | undefined> {
+    return (await provider.network?.())?.name;
   }
 
-  async signMessage(message: string): Promise<string> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.pontem;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-      const response = await provider?.signMessage(message);
-      console.log('MEMEM>>>', response);
-      if (response.success) {
-        return response.result.hexString;
-      } else {
-        throw new Error('Sign Message failed');
-      }
-    } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignMessageError(errMsg));
-      throw error;
-    }
+  protected async listen(provider: IPontemWallet): Promise<void> {
+    await this.subscribe(
+      (listener) => provider.onChangeNetwork?.(listener),
+      (network: PontemNetwork) => this._handleNetworkChange(network?.name)
+    );
+    // Pontem reports an undefined address when the dApp is no longer allowed to see the account
+    await this.subscribe(
+      (listener) => provider.onChangeAccount?.(listener),
+      (address: MaybeHexString | undefined) =>
+        this._handleAccountChange(
+          address ? provider.publicKey().then((publicKey) => ({ address, publicKey })) : null
+        )
+    );
   }
 }
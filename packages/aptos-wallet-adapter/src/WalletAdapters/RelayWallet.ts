@@ -0,0 +1,531 @@
+import { HexString } from 'aptos';
+import { HexEncodedBytes } from 'aptos/src/generated';
+import {
+  WalletAccountError,
+  WalletConnectionError,
+  WalletDisconnectedError,
+  WalletDisconnectionError,
+  WalletErrorCode,
+  WalletNotConnectedError,
+  WalletNotReadyError,
+  WalletSignAndSubmitMessageError,
+  WalletSignMessageError,
+  WalletSignTransactionError,
+  WalletUserRejectedError
+} from '../WalletProviders/errors';
+import {
+  AccountKeys,
+  Address,
+  BaseWalletAdapter,
+  toWalletAdapterNetwork,
+  WalletAdapterNetwork,
+  WalletFeatures,
+  WalletName,
+  WalletOperation,
+  WalletReadyState
+} from './BaseAdapter';
+import { AnyTransactionPayload } from '../utilities/bcsPayload';
+import { JSON_ARGUMENT_ENCODING } from '../utilities/entryFunctionArguments';
+import {
+  createRelayPairing,
+  openRelayMessage,
+  RelayEnvelope,
+  RELAY_USER_REJECTED,
+  RelayAccount,
+  RelayMessage,
+  RelayMethod,
+  RelayMethods,
+  RelayPairing,
+  relayPairingUri,
+  sealRelayMessage
+} from '../utilities/relayPairing';
+import {
+  RelayTransport,
+  RelayTransportFactory,
+  WebSocketRelayTransport
+} from '../utilities/relayTransport';
+import {
+  jsonTransactionOptions,
+  TransactionOption,
+  TransactionOptions
+} from '../utilities/transactionOptions';
+import { sameAddress, withTimeout } from '../utilities/util';
+
+export const RelayWalletName = 'Relay' as WalletName<'Relay'>;
+
+export interface RelayWalletAdapterConfig {
+  /** WebSocket URL of the relay server both sides connect to */
+  relayUrl: string;
+  /** How messages reach the relay, over a WebSocket unless given */
+  transport?: RelayTransportFactory;
+  /** Called with the URI the wallet has to scan, eg. to show it as a QR code, on each pairing */
+  onPairingUri?: (uri: string) => void;
+  network?: WalletAdapterNetwork;
+  /** The user has to reach for their phone for every request, so this defaults to 2 minutes */
+  timeout?: number;
+  /**
+   * sessionStorage key of the session, which `connect` resumes after a reload. It holds the session
+   * key, so it isn't kept beyond the tab.
+   */
+  storageKey?: string;
+}
+
+/** What is kept of a session to resume it without pairing again */
+interface StoredRelaySession {
+  relayUrl: string;
+  topic: string;
+  key: string;
+  account: RelayAccount;
+  network?: WalletAdapterNetwork;
+  /** Sequence numbers of the last message sent and received, kept so replays fail after reloads */
+  sent?: number;
+  received?: number;
+}
+
+interface PendingRequest {
+  resolve(value: any): void;
+  reject(error: any): void;
+}
+
+interface PendingPairing {
+  resolve(account: RelayAccount & { network?: string }): void;
+  reject(error: any): void;
+}
+
+const toAccountKeys = (account?: RelayAccount): AccountKeys => ({
+  publicKey: account?.publicKey || null,
+  address: account?.address || null,
+  authKey: account?.authKey || null
+});
+
+/**
+ * Connects to a wallet running elsewhere, typically on the user's phone. The wallet scans the
+ * pairing URI, which carries the relay, a topic and the session key, and approves the session.
+ * From then on both sides exchange JSON-RPC messages through the relay, sealed with the key.
+ */
+export class RelayWalletAdapter extends BaseWalletAdapter {
+  name = RelayWalletName;
+
+  url = 'https://github.com/hippospace/aptos-wallet-adapter';
+
+  icon =
+    'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCA2NCA2NCI+PHJlY3Qgd2lkdGg9IjY0IiBoZWlnaHQ9IjY0IiByeD0iMTYiIGZpbGw9IiMxRjFGMUYiLz48cmVjdCB4PSIyMSIgeT0iMTIiIHdpZHRoPSIyMiIgaGVpZ2h0PSI0MCIgcng9IjQiIGZpbGw9Im5vbmUiIHN0cm9rZT0iI2ZmZiIgc3Ryb2tlLXdpZHRoPSIzIi8+PGNpcmNsZSBjeD0iMzIiIGN5PSI0NSIgcj0iMiIgZmlsbD0iI2ZmZiIvPjwvc3ZnPg==';
+
+  protected _relayUrl: string;
+
+  protected _createTransport: RelayTransportFactory;
+
+  protected _onPairingUri?: (uri: string) => void;
+
+  protected _storageKey: string;
+
+  protected _network: WalletAdapterNetwork;
+
+  protected _timeout: number;
+
+  protected _readyState: WalletReadyState =
+    typeof window === 'undefined' ? WalletReadyState.Unsupported : WalletReadyState.Loadable;
+
+  protected _connecting = false;
+
+  protected _session: StoredRelaySession | null = null;
+
+  protected _key: Uint8Array | null = null;
+
+  protected _transport: RelayTransport | null = null;
+
+  protected _pairing: PendingPairing | null = null;
+
+  protected _pairingUri: string | null = null;
+
+  protected _requests = new Map<number, PendingRequest>();
+
+  protected _nextRequestId = 1;
+
+  protected _sent = 0;
+
+  protected _received = 0;
+
+  protected argumentEncoding = JSON_ARGUMENT_ENCODING;
+
+  /** The wallet builds the transaction for the session's account with the other options */
+  supportedTransactionOptions: TransactionOption[] = [
+    'max_gas_amount',
+    'gas_unit_price',
+    'expiration_timestamp_secs',
+    'sequence_number'
+  ];
+
+  /** The wallet tells about account and network switches over the relay */
+  get features(): WalletFeatures {
+    return { ...super.features, networkInfo: true, accountChangeEvents: true };
+  }
+
+  constructor({
+    relayUrl,
+    transport = (url) => new WebSocketRelayTransport(url),
+    onPairingUri,
+    network = WalletAdapterNetwork.Devnet,
+    timeout = 120000,
+    storageKey = 'aptosRelaySession'
+  }: RelayWalletAdapterConfig) {
+    super();
+
+    this._relayUrl = relayUrl;
+    this._createTransport = transport;
+    this._onPairingUri = onPairingUri;
+    this._network = network;
+    this._timeout = timeout;
+    this._storageKey = storageKey;
+  }
+
+  get publicAccount(): AccountKeys {
+    return toAccountKeys(this._session?.account);
+  }
+
+  get connecting(): boolean {
+    return this._connecting;
+  }
+
+  get connected(): boolean {
+    return !!this._session;
+  }
+
+  get readyState(): WalletReadyState {
+    return this._readyState;
+  }
+
+  get network(): WalletAdapterNetwork {
+    return this._network;
+  }
+
+  /** URI of the pairing waiting for the wallet, null once it was answered */
+  get pairingUri(): string | null {
+    return this._pairingUri;
+  }
+
+  /** Resumes the stored session if there is one, pairs with the wallet otherwise */
+  async connect(timeout = this._timeout): Promise<void> {
+    try {
+      if (this.connected || this.connecting) return;
+      if (this._readyState !== WalletReadyState.Loadable) throw new WalletNotReadyError();
+      this._connecting = true;
+
+      const stored = this.loadSession();
+      if (stored) {
+        try {
+          await withTimeout(this.resume(stored, timeout), timeout, 'connect');
+        } catch (error: any) {
+          // A session the wallet no longer answers on is dropped, connecting again pairs anew
+          this.clearSession('connect');
+          throw error;
+        }
+      } else {
+        await withTimeout(this.pair(), timeout, 'connect');
+      }
+
+      this.emit('connect', this.publicAccount.publicKey || this.publicAccount.address!);
+    } catch (error: any) {
+      this.closeTransport();
+      const walletError = this.toWalletError(error, 'connect', WalletConnectionError);
+      this.emit('error', walletError);
+      throw walletError;
+    } finally {
+      this._connecting = false;
+      this._pairing = null;
+      this._pairingUri = null;
+    }
+  }
+
+  /** Ends the session on both sides, a new pairing is needed to connect again */
+  async disconnect(): Promise<void> {
+    if (this._session) {
+      try {
+        await this.publish({ jsonrpc: '2.0', method: 'aptos_disconnect' });
+      } catch (error: any) {
+        this.emit('error', this.toWalletError(error, 'disconnect', WalletDisconnectionError));
+      }
+    }
+    this.endSession();
+  }
+
+  async signTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout = this._timeout
+  ): Promise<Uint8Array> {
+    try {
+      if (!this._session) throw new WalletNotConnectedError();
+      this.checkTransactionOptions(options);
+      const { signedTransaction } = await this.request('aptos_signTransaction', timeout, {
+        payload: await this.coercePayload(transaction),
+        options: jsonTransactionOptions(options)
+      });
+      return new HexString(signedTransaction).toUint8Array();
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'signTransaction', WalletSignTransactionError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  async signAndSubmitTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout = this._timeout
+  ): Promise<{ hash: HexEncodedBytes }> {
+    try {
+      if (!this._session) throw new WalletNotConnectedError();
+      this.checkTransactionOptions(options);
+      const { hash } = await this.request('aptos_signAndSubmitTransaction', timeout, {
+        payload: await this.coercePayload(transaction),
+        options: jsonTransactionOptions(options)
+      });
+      return { hash };
+    } catch (error: any) {
+      const walletError = this.toWalletError(
+        error,
+        'signAndSubmitTransaction',
+        WalletSignAndSubmitMessageError
+      );
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  protected async signRawMessage(message: string, timeout = this._timeout): Promise<string> {
+    try {
+      if (!this._session) throw new WalletNotConnectedError();
+      const { signature } = await this.request('aptos_signMessage', timeout, { message });
+      return signature;
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'signMessage', WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  async getAccounts(timeout = this._timeout): Promise<AccountKeys[]> {
+    try {
+      if (!this._session) throw new WalletNotConnectedError();
+      const { accounts } = await this.request('aptos_getAccounts', timeout, undefined);
+      return accounts.map(toAccountKeys);
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'getAccounts', WalletAccountError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  async switchAccount(address: Address, timeout = this._timeout): Promise<void> {
+    try {
+      if (!this._session) throw new WalletNotConnectedError();
+      const account = await this.request('aptos_switchAccount', timeout, {
+        address: address.toString()
+      });
+      this.handleAccountChange(account);
+    } catch (error: any) {
+      const walletError = this.toWalletError(error, 'switchAccount', WalletAccountError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  /** Wallets answer with JSON-RPC errors, declining being `RELAY_USER_REJECTED` */
+  protected errorCode(error: any): WalletErrorCode | undefined {
+    return error?.code === RELAY_USER_REJECTED ? WalletErrorCode.UserRejected : undefined;
+  }
+
+  /** Problems with the relay outside of any request, reported against the connection */
+  protected handleRelayError = (error: any): void => {
+    this.emit('error', this.toWalletError(error, 'connect', WalletConnectionError));
+  };
+
+  /** Reopens the stored session once the wallet answered on it */
+  protected async resume(stored: StoredRelaySession, timeout: number): Promise<void> {
+    await this.openTransport({ ...stored, key: new HexString(stored.key).toUint8Array() }, stored);
+    await this.request('aptos_ping', timeout, undefined);
+    this._session = stored;
+    if (stored.network) this._network = stored.network;
+  }
+
+  /** Hands out a pairing URI and waits for the wallet to scan it and approve the session */
+  protected async pair(): Promise<void> {
+    const pairing = createRelayPairing(this._relayUrl);
+    await this.openTransport(pairing);
+
+    const approved = new Promise<RelayAccount & { network?: string }>((resolve, reject) => {
+      this._pairing = { resolve, reject };
+    });
+    this._pairingUri = relayPairingUri(pairing, {
+      name: typeof document !== 'undefined' ? document.title : undefined,
+      url: window.location.origin,
+      network: this._network
+    });
+    this._onPairingUri?.(this._pairingUri);
+
+    const { network, ...account } = await approved;
+    this._network = toWalletAdapterNetwork(network) || this._network;
+    this._session = {
+      relayUrl: pairing.relayUrl,
+      topic: pairing.topic,
+      key: HexString.fromUint8Array(pairing.key).hex(),
+      account,
+      network: this._network
+    };
+    this.saveSession('connect');
+  }
+
+  /** Sends a request tagged by a fresh id and waits for the wallet's response with the same id */
+  protected async request<M extends RelayMethod>(
+    method: M,
+    timeout: number,
+    params: any
+  ): Promise<RelayMethods[M]> {
+    const id = this._nextRequestId++;
+    const response = new Promise<RelayMethods[M]>((resolve, reject) => {
+      this._requests.set(id, { resolve, reject });
+    });
+    try {
+      await this.publish({ jsonrpc: '2.0', id, method, params });
+      return await withTimeout(response, timeout, method);
+    } finally {
+      this._requests.delete(id);
+    }
+  }
+
+  protected handleMessage = (sealed: string): void => {
+    let envelope: RelayEnvelope | undefined;
+    try {
+      envelope = this._key ? openRelayMessage(sealed, this._key) : undefined;
+    } catch (error: any) {
+      this.handleRelayError(error);
+      return;
+    }
+    // Whatever a dApp sent, this one or another on the session, and replays are dropped
+    if (!envelope || envelope.from !== 'wallet' || !(envelope.seq > this._received)) return;
+    this._received = envelope.seq;
+    if (this._session) this.saveSession('connect');
+
+    const { message } = envelope;
+    if (!('method' in message)) {
+      const request = this._requests.get(message.id);
+      if (message.error) request?.reject(message.error);
+      else request?.resolve(message.result);
+      return;
+    }
+    // Requests from the wallet aren't part of the protocol
+    if ('id' in message) return;
+
+    switch (message.method) {
+      case 'aptos_approveSession':
+        this._pairing?.resolve(message.params);
+        break;
+      case 'aptos_rejectSession':
+        this._pairing?.reject(
+          new WalletUserRejectedError(message.params?.message || 'User rejected the session')
+        );
+        break;
+      case 'aptos_accountChanged':
+        this.handleAccountChange(message.params);
+        break;
+      case 'aptos_networkChanged':
+        this.handleNetworkChange(message.params.network);
+        break;
+      case 'aptos_disconnect':
+        this.endSession();
+        break;
+    }
+  };
+
+  private handleAccountChange(account: RelayAccount): void {
+    if (!this._session) return;
+    // The dApp lost access to the account, which ends the session
+    if (!account?.address) {
+      this.endSession();
+      return;
+    }
+    if (sameAddress(account.address, this._session.account.address)) return;
+    this._session.account = account;
+    this.saveSession('accountChange');
+    this.emit('accountChange', this.publicAccount);
+  }
+
+  private handleNetworkChange(networkName: string): void {
+    const network = toWalletAdapterNetwork(networkName);
+    if (!this._session || !network || network === this._network) return;
+    this._network = network;
+    this._session.network = network;
+    this.saveSession('networkChange');
+    this.emit('networkChange', network);
+  }
+
+  private async openTransport(
+    pairing: RelayPairing,
+    { sent = 0, received = 0 }: Pick<StoredRelaySession, 'sent' | 'received'> = {}
+  ): Promise<void> {
+    this.closeTransport();
+    this._key = pairing.key;
+    this._sent = sent;
+    this._received = received;
+    this._transport = this._createTransport(pairing.relayUrl);
+    await this._transport.open(pairing.topic, this.handleMessage, this.handleRelayError);
+  }
+
+  private closeTransport(): void {
+    this._transport?.close();
+    this._transport = null;
+    this._key = null;
+  }
+
+  private async publish(message: RelayMessage): Promise<void> {
+    if (!this._transport || !this._key) throw new WalletNotConnectedError();
+    const envelope: RelayEnvelope = { from: 'dapp', seq: ++this._sent, message };
+    if (this._session) this.saveSession('connect');
+    await this._transport.publish(sealRelayMessage(envelope, this._key));
+  }
+
+  private endSession(): void {
+    this.closeTransport();
+    this._pairing?.reject(new WalletDisconnectedError('Wallet disconnected'));
+    this._requests.forEach((request) =>
+      request.reject(new WalletDisconnectedError('Wallet disconnected'))
+    );
+    this._requests.clear();
+    this._session = null;
+    this.clearSession('disconnect');
+    this.emit('disconnect');
+  }
+
+  /** A session that can't be read is reported and dropped, connecting pairs again */
+  private loadSession(): StoredRelaySession | null {
+    try {
+      const stored = sessionStorage.getItem(this._storageKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error: any) {
+      this.emit('error', this.toWalletError(error, 'connect', WalletConnectionError));
+      this.clearSession('connect');
+      return null;
+    }
+  }
+
+  /** Failing to keep the session only costs pairing again after a reload, so it's just reported */
+  private saveSession(operation: WalletOperation): void {
+    try {
+      sessionStorage.setItem(
+        this._storageKey,
+        JSON.stringify({ ...this._session, sent: this._sent, received: this._received })
+      );
+    } catch (error: any) {
+      this.emit('error', this.toWalletError(error, operation));
+    }
+  }
+
+  private clearSession(operation: WalletOperation): void {
+    try {
+      sessionStorage.removeItem(this._storageKey);
+    } catch (error: any) {
+      this.emit('error', this.toWalletError(error, operation));
+    }
+  }
+}
@@ -1,19 +1,10 @@
-import { HexEncodedBytes, TransactionPayload } from 'aptos/src/generated';
+import { TransactionPayload, HexEncodedBytes } from 'aptos/src/generated';
+import { WalletFeatures, WalletName } from './BaseAdapter';
 import {
-  WalletDisconnectionError,
-  WalletNotConnectedError,
-  WalletNotReadyError,
-  WalletSignAndSubmitMessageError,
-  WalletSignMessageError,
-  WalletSignTransactionError
-} from '../WalletProviders/errors';
-import {
-  AccountKeys,
-  BaseWalletAdapter,
-  scopePollingDetectionStrategy,
-  WalletName,
-  WalletReadyState
-} from './BaseAdapter';
+  InjectedWalletAccount,
+  InjectedWalletAdapter,
+  InjectedWalletAdapterConfig
+} from './InjectedWalletAdapter';
 
 interface ISpikaWallet {
   connect: () => Promise<{ publicKey: string; account: string; authKey: string }>;
@@ -23,6 +14,8 @@ interface ISpikaWallet {
   signTransaction(transaction: any): Promise<Uint8Array>;
   signMessage(message: string): Promise<string>;
   disconnect(): Promise<void>;
+  network?(): Promise<string>;
+  onNetworkChange?(listener: (network: string) => void): Promise<void>;
 }
 
 interface SpikaWindow extends Window {
@@ -33,193 +26,78 @@ declare const window: SpikaWindow;
 
 export const SpikaWalletName = 'Spika' as WalletName<'Spika'>;
 
-export interface SpikaWalletAdapterConfig {
+export interface SpikaWalletAdapterConfig extends InjectedWalletAdapterConfig {
   provider?: ISpikaWallet;
-  // network?: WalletAdapterNetwork;
-  timeout?: number;
 }
 
-export class SpikaWalletAdapter extends BaseWalletAdapter {
+export class SpikaWalletAdapter extends InjectedWalletAdapter<ISpikaWallet> {
   name = SpikaWalletName;
 
   url = 'https://chrome.google.com/webstore/detail/spika/fadkojdgchhfkdkklllhcphknohbmjmb';
 
   icon = 'https://pbs.twimg.com/profile_images/1562544739181887488/vSqEIeyh_400x400.png';
 
-  protected _provider: ISpikaWallet | undefined;
-
-  // protected _network: WalletAdapterNetwork;
-  protected _timeout: number;
-
-  protected _readyState: WalletReadyState =
-    typeof window === 'undefined' || typeof document === 'undefined'
-      ? WalletReadyState.Unsupported
-      : WalletReadyState.NotDetected;
-
-  protected _connecting: boolean;
-
-  protected _wallet: any | null;
-
-  constructor({
-    // provider,
-    // network = WalletAdapterNetwork.Mainnet,
-    timeout = 10000
-  }: SpikaWalletAdapterConfig = {}) {
-    super();
-
-    this._provider = typeof window !== 'undefined' ? window.spika : undefined;
-    // this._network = network;
-    this._timeout = timeout;
-    this._connecting = false;
-    this._wallet = null;
-
-    if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
-      scopePollingDetectionStrategy(() => {
-        if (window.spika) {
-          this._readyState = WalletReadyState.Installed;
-          this.emit('readyStateChange', this._readyState);
-          return true;
-        }
-        return false;
-      });
-    }
+  /** Spika reports its network, but not account switches */
+  get features(): WalletFeatures {
+    return { ...super.features, networkInfo: true };
   }
 
-  get publicAccount(): AccountKeys {
-    return {
-      publicKey: this._wallet?.publicKey || null,
-      address: this._wallet?.address || null,
-      authKey: this._wallet?.authKey || null
-    };
+  constructor(config: SpikaWalletAdapterConfig = {}) {
+    super(config);
   }
 
-  get connecting(): boolean {
-    return this._connecting;
+  protected detectProvider(): ISpikaWallet | undefined {
+    return window.spika;
   }
 
-  get connected(): boolean {
-    return !!this._wallet?.isConnected;
+  protected async requestConnect(provider: ISpikaWallet): Promise<InjectedWalletAccount> {
+    if (await provider.isConnected()) {
+      await provider.disconnect();
+    }
+    const response = await provider.connect();
+    return {
+      publicKey: response?.publicKey,
+      address: response?.account,
+      authKey: response?.authKey
+    };
   }
 
-  get readyState(): WalletReadyState {
-    return this._readyState;
+  protected async requestDisconnect(provider: ISpikaWallet): Promise<void> {
+    await provider.disconnect();
   }
 
-  async connect(): Promise<void> {
-    try {
-      if (this.connected || this.connecting) {
-        return;
-      }
-
-      if (
-        !(
-          this._readyState === WalletReadyState.Loadable ||
-          this._readyState === WalletReadyState.Installed
-        )
-      )
-        throw new WalletNotReadyError();
-      this._connecting = true;
-
-      const provider = this._provider || window.spika;
-      const isConnected = await provider?.isConnected();
-      if (isConnected === true) {
-        await provider?.disconnect();
-      }
-
-      const response = await provider?.connect();
-      if (response?.publicKey !== undefined) {
-        this._wallet = {
-          publicKey: response?.publicKey,
-          address: response?.account,
-          authKey: response?.authKey,
-          isConnected: true
-        };
-      } else {
-        this._wallet = {
-          isConnected: false
-        };
-      }
-
-      this.emit('connect', this._wallet.publicKey);
-    } catch (error: any) {
-      this.emit('error', error);
-      throw error;
-    } finally {
-      this._connecting = false;
-    }
+  protected async requestSignTransaction(
+    provider: ISpikaWallet,
+    transaction: TransactionPayload
+  ): Promise<Uint8Array> {
+    const response = await provider.signTransaction(transaction);
+    if (!response) throw new Error('Sign Transaction failed');
+    return response;
   }
 
-  async disconnect(): Promise<void> {
-    const wallet = this._wallet;
-    if (wallet) {
-      this._wallet = null;
-
-      try {
-        const provider = this._provider || window.spika;
-        await provider?.disconnect();
-      } catch (error: any) {
-        this.emit('error', new WalletDisconnectionError(error?.message, error));
-      }
-    }
-
-    this.emit('disconnect');
+  protected async requestSignAndSubmitTransaction(
+    provider: ISpikaWallet,
+    transaction: TransactionPayload
+  ): Promise<{ hash: HexEncodedBytes }> {
+    const response = await provider.signAndSubmitTransaction(transaction);
+    if (!response) throw new Error('Transaction failed');
+    return response;
   }
 
-  async signTransaction(transaction: TransactionPayload): Promise<Uint8Array> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.spika;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-
-      const response = await provider?.signTransaction(transaction);
-      if (response) {
-        return response;
-      } else {
-        throw new Error('Sign Transaction failed');
-      }
-    } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignTransactionError(errMsg));
-      throw error;
-    }
+  protected async requestSignMessage(provider: ISpikaWallet, message: string): Promise<string> {
+    const response = await provider.signMessage(message);
+    if (!response) throw new Error('Sign Message failed');
+    return response;
   }
 
-  async signAndSubmitTransaction(
-    transaction: TransactionPayload
-  ): Promise<{ hash: HexEncodedBytes }> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.spika;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-
-      const response = await provider?.signAndSubmitTransaction(transaction);
-      if (response) {
-        return response;
-      } else {
-        throw new Error('Transaction failed');
-      }
-    } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignAndSubmitMessageError(errMsg));
-      throw error;
-    }
+  protected async fetchNetwork(provider: ISpikaWallet): Promise<string | undefined> {
+    return provider.network?.();
   }
 
-  async signMessage(message: string): Promise<string> {
-    try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.spika;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
-      const response = await provider?.signMessage(message);
-      if (response) {
-        return response;
-      } else {
-        throw new Error('Sign Message failed');
-      }
-    } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignMessageError(errMsg));
-      throw error;
-    }
+  protected async listen(provider: ISpikaWallet): Promise<void> {
+    await this.subscribe(
+      (listener) => provider.onNetworkChange?.(listener),
+      this._handleNetworkChange
+    );
   }
 }
@@ -2,8 +2,11 @@ export * from './AptosWallet';
 export * from './BaseAdapter';
 export * from './HippoExtensionWallet';
 export * from './HippoWallet';
+export * from './InjectedWalletAdapter';
+export * from './LocalAccountWallet';
 export * from './MartianWallet';
 export * from './FewchaWallet';
 export * from './PontemWallet';
-// export * from './NightlyWallet';
+export * from './NightlyWallet';
 export * from './SpikaWallet';
+export * from './RelayWallet';
@@ -1,19 +1,44 @@
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import {
+  settledTransaction,
+  summarizePayload,
+  useTransactionTracker
+} from '../hooks/useTransactionTracker';
 import { FC, ReactNode, useCallback, useEffect, useRef, useState } from 'react';
-import { TransactionPayload } from 'aptos/src/generated';
 import {
   WalletError,
+  WalletMethodNotSupportedError,
   WalletNotConnectedError,
   WalletNotReadyError,
-  WalletNotSelectedError
+  WalletNotSelectedError,
+  WalletSimulationError,
+  WalletTransactionFailedError
 } from './errors';
 import {
   AccountKeys,
+  EventEmitter,
+  SignMessagePayload,
   WalletAdapter,
+  WalletAdapterNetwork,
+  WalletFeature,
   WalletName,
+  WalletOperation,
   WalletReadyState
 } from '../WalletAdapters/BaseAdapter';
-import { Wallet, WalletContext } from './useWallet';
+import {
+  SignAndSubmitOptions,
+  TransactionEvents,
+  Wallet,
+  WalletConnection,
+  WalletContext,
+  WalletContextState
+} from './useWallet';
+import { TrackedTransaction, TransactionsContext } from './useTransactions';
+import { AnyTransactionPayload } from '../utilities/bcsPayload';
+import { takeDeepLinkedWallet } from '../utilities/deepLink';
+import { TransactionOptions, unsupportedTransactionOptions } from '../utilities/transactionOptions';
+import { errorCodeFromMessage, sameAddress } from '../utilities/util';
+import { SignedMessage, verifySignedMessage } from '../utilities/verifySignedMessage';
 
 export interface WalletProviderProps {
   children: ReactNode;
@@ -21,33 +46,103 @@ export interface WalletProviderProps {
   autoConnect?: boolean;
   onError?: (error: WalletError) => void;
   localStorageKey?: string;
+  /** Default timeout (ms) for wallet operations, falls back to each adapter's own timeout */
+  timeout?: number;
+  /** Keeps wallets connected when another one is selected, see `connections` */
+  multiConnect?: boolean;
 }
 
 const initialState: {
   wallet: Wallet | null;
   adapter: WalletAdapter | null;
   account: AccountKeys | null;
+  network: WalletAdapterNetwork | null;
   connected: boolean;
 } = {
   wallet: null,
   adapter: null,
   account: null,
+  network: null,
   connected: false
 };
 
+const toConnection = (adapter: WalletAdapter): WalletConnection => ({
+  walletName: adapter.name,
+  adapter,
+  account: adapter.publicAccount,
+  network: adapter.network
+});
+
+/** Whether `target` names the connection's wallet or is its account's address */
+const isTarget = ({ walletName, account }: WalletConnection, target: string) =>
+  walletName === target || (!!account.address && sameAddress(account.address, target));
+
+/** Switches back to the account at `address` after connecting, if the wallet still holds it */
+const restoreAccount = async (adapter: WalletAdapter, address: string, timeout?: number) => {
+  const { address: current } = adapter.publicAccount;
+  if (
+    !adapter.features.multiAccount ||
+    !adapter.getAccounts ||
+    !adapter.switchAccount ||
+    !current ||
+    sameAddress(current, address)
+  )
+    return;
+  const held = await adapter.getAccounts(timeout);
+  if (
+    held.some((heldAccount) => heldAccount.address && sameAddress(heldAccount.address, address))
+  ) {
+    await adapter.switchAccount(address, timeout);
+  }
+};
+
+/** For calls relying on something the wallet can't do, rejected before reaching the wallet */
+const notSupportedError = (adapter: WalletAdapter, what: string, operation: WalletOperation) =>
+  new WalletMethodNotSupportedError(`${adapter.name} does not support ${what}`, undefined, {
+    walletName: adapter.name,
+    operation
+  });
+
+/** Names the transaction options the wallet would reject */
+const unsupportedOptionsError = (
+  adapter: WalletAdapter,
+  options: TransactionOptions | undefined,
+  operation: WalletOperation
+) => {
+  const unsupported = unsupportedTransactionOptions(options, adapter.supportedTransactionOptions);
+  return unsupported.length
+    ? notSupportedError(adapter, `the transaction options: ${unsupported.join(', ')}`, operation)
+    : undefined;
+};
+
 export const WalletProvider: FC<WalletProviderProps> = ({
   children,
   wallets: adapters,
   autoConnect = false,
   onError,
-  localStorageKey = 'walletName'
+  localStorageKey = 'walletName',
+  timeout: defaultTimeout,
+  multiConnect = false
 }) => {
   const [name, setName] = useLocalStorage<WalletName | null>(localStorageKey, null);
-  const [{ wallet, adapter, account, connected }, setState] = useState(initialState);
+  const [savedAccount, setSavedAccount] = useLocalStorage<string | null>(
+    `${localStorageKey}:account`,
+    null
+  );
+  const [{ wallet, adapter, account, network, connected }, setState] = useState(initialState);
   const readyState = adapter?.readyState || WalletReadyState.Unsupported;
   const [connecting, setConnecting] = useState(false);
   const [disconnecting, setDisconnecting] = useState(false);
   const isConnecting = useRef(false);
+  const [transactionEvents] = useState(() => new EventEmitter<TransactionEvents>());
+  const {
+    transactions,
+    track: trackTransaction,
+    settle: settleTransaction,
+    poll: pollTransaction,
+    exportTransactions,
+    clearTransactions
+  } = useTransactionTracker(`${localStorageKey}:transactions`);
   const isDisconnecting = useRef(false);
   const isUnloading = useRef(false);
 
@@ -59,6 +154,15 @@ export const WalletProvider: FC<WalletProviderProps> = ({
     }))
   );
 
+  // Adapters dropped from `wallets` stop looking for their wallet
+  const previousAdapters = useRef(adapters);
+  useEffect(() => {
+    previousAdapters.current
+      .filter((wAdapter) => !adapters.includes(wAdapter))
+      .forEach((wAdapter) => wAdapter.dispose());
+    previousAdapters.current = adapters;
+  }, [adapters]);
+
   // When the wallets change, start to listen for changes to their `readyState`
   useEffect(() => {
     // When the adapters change, wrap them to conform to the `Wallet` interface
@@ -100,6 +204,29 @@ export const WalletProvider: FC<WalletProviderProps> = ({
       );
   }, [adapters]);
 
+  // Follow which adapters are connected, and to what, whether selected or not
+  const [connections, setConnections] = useState<WalletConnection[]>([]);
+  useEffect(() => {
+    function updateConnections() {
+      setConnections(adapters.filter((wAdapter) => wAdapter.connected).map(toConnection));
+    }
+
+    updateConnections();
+    adapters.forEach((wAdapter) => {
+      wAdapter.on('connect', updateConnections);
+      wAdapter.on('disconnect', updateConnections);
+      wAdapter.on('accountChange', updateConnections);
+      wAdapter.on('networkChange', updateConnections);
+    });
+    return () =>
+      adapters.forEach((wAdapter) => {
+        wAdapter.off('connect', updateConnections);
+        wAdapter.off('disconnect', updateConnections);
+        wAdapter.off('accountChange', updateConnections);
+        wAdapter.off('networkChange', updateConnections);
+      });
+  }, [adapters]);
+
   // When the selected wallet changes, initialize the state
   useEffect(() => {
     const selectedWallet = wallets.find((wAdapter) => wAdapter.adapter.name === name);
@@ -108,13 +235,52 @@ export const WalletProvider: FC<WalletProviderProps> = ({
         wallet: selectedWallet,
         adapter: selectedWallet.adapter,
         connected: selectedWallet.adapter.connected,
-        account: selectedWallet.adapter.publicAccount
+        account: selectedWallet.adapter.publicAccount,
+        network: selectedWallet.adapter.connected ? selectedWallet.adapter.network : null
       });
     } else {
       setState(initialState);
     }
   }, [name, wallets]);
 
+  // Keep the connected account alongside the wallet name, to get back to it after a reload
+  useEffect(() => {
+    if (!name) setSavedAccount(null);
+    else if (connected && account?.address) setSavedAccount(account.address.toString());
+  }, [name, connected, account, setSavedAccount]);
+
+  // List the selected wallet's accounts once connected, and again when the user switches
+  const [accounts, setAccounts] = useState<AccountKeys[]>([]);
+  useEffect(() => {
+    if (!adapter || !connected || !account?.address) {
+      setAccounts([]);
+      return;
+    }
+    if (!adapter.features.multiAccount || !adapter.getAccounts) {
+      setAccounts([account]);
+      return;
+    }
+
+    let cancelled = false;
+    adapter.getAccounts(defaultTimeout).then(
+      (wAccounts) => !cancelled && setAccounts(wAccounts),
+      // The adapter reports the error, the connected account is still there
+      () => !cancelled && setAccounts([account])
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [adapter, connected, account, defaultTimeout]);
+
+  // Reopened in a wallet's in-app browser through its deep link, connect the wallet it was for
+  const [deepLinkedWallet, setDeepLinkedWallet] = useState<string | null>(null);
+  useEffect(() => {
+    const walletName = takeDeepLinkedWallet();
+    if (!walletName) return;
+    setName(walletName as WalletName);
+    setDeepLinkedWallet(walletName);
+  }, [setName]);
+
   // If the window is closing or reloading, ignore disconnect and error events from the adapter
   useEffect(() => {
     function listener() {
@@ -131,15 +297,37 @@ export const WalletProvider: FC<WalletProviderProps> = ({
     setState((state) => ({
       ...state,
       connected: adapter.connected,
-      account: adapter.publicAccount
+      account: adapter.publicAccount,
+      network: adapter.network
     }));
   }, [adapter]);
 
+  // Handle the adapter's accountChange event, the session stays connected with the new account
+  const handleAccountChange = useCallback((newAccount: AccountKeys) => {
+    setState((state) => ({
+      ...state,
+      account: newAccount
+    }));
+  }, []);
+
+  // Handle the adapter's networkChange event
+  const handleNetworkChange = useCallback((newNetwork: WalletAdapterNetwork) => {
+    setState((state) => ({
+      ...state,
+      network: newNetwork
+    }));
+  }, []);
+
   // Handle the adapter's disconnect event
   const handleDisconnect = useCallback(() => {
     // Clear the selected wallet unless the window is unloading
-    if (!isUnloading.current) setName(null);
-  }, [isUnloading, setName]);
+    if (isUnloading.current) return;
+    // Or fall back to another wallet that is still connected
+    const nextAdapter = multiConnect
+      ? adapters.find((wAdapter) => wAdapter !== adapter && wAdapter.connected)
+      : undefined;
+    setName(nextAdapter?.name || null);
+  }, [isUnloading, setName, multiConnect, adapters, adapter]);
 
   // Handle the adapter's error event, and local errors
   const handleError = useCallback(
@@ -156,30 +344,42 @@ export const WalletProvider: FC<WalletProviderProps> = ({
     if (adapter) {
       adapter.on('connect', handleConnect);
       adapter.on('disconnect', handleDisconnect);
-      adapter.on('error', handleError);
+      adapter.on('networkChange', handleNetworkChange);
+      adapter.on('accountChange', handleAccountChange);
       return () => {
         adapter.off('connect', handleConnect);
         adapter.off('disconnect', handleDisconnect);
-        adapter.off('error', handleError);
+        adapter.off('networkChange', handleNetworkChange);
+        adapter.off('accountChange', handleAccountChange);
       };
     }
-  }, [adapter, handleConnect, handleDisconnect, handleError]);
+  }, [adapter, handleConnect, handleDisconnect, handleNetworkChange, handleAccountChange]);
 
-  // When the adapter changes, disconnect the old one
+  // Errors are reported from every adapter, with multiConnect the others are in use too
+  useEffect(() => {
+    adapters.forEach((wAdapter) => wAdapter.on('error', handleError));
+    return () => adapters.forEach((wAdapter) => wAdapter.off('error', handleError));
+  }, [adapters, handleError]);
+
+  // When the adapter changes, disconnect the old one unless it stays connected alongside
   useEffect(() => {
     return () => {
-      adapter?.disconnect();
+      if (!multiConnect) adapter?.disconnect();
     };
-  }, [adapter]);
+  }, [adapter, multiConnect]);
 
   // If autoConnect is enabled, try to connect when the adapter changes and is ready
   useEffect(() => {
     if (
       isConnecting.current ||
       connected ||
-      !autoConnect ||
       !adapter ||
-      !(readyState === WalletReadyState.Installed || readyState === WalletReadyState.Loadable)
+      !(autoConnect || adapter.name === deepLinkedWallet) ||
+      !(
+        readyState === WalletReadyState.Installed ||
+        // Connecting through a deep link would leave the page without the user asking
+        (readyState === WalletReadyState.Loadable && !adapter.deepLink)
+      )
     )
       return;
 
@@ -187,35 +387,49 @@ export const WalletProvider: FC<WalletProviderProps> = ({
       isConnecting.current = true;
       setConnecting(true);
       try {
-        await adapter.connect();
+        await adapter.connect(defaultTimeout);
+        // Staying on the wallet's default account when that fails, handleError is still called
+        if (savedAccount) {
+          await restoreAccount(adapter, savedAccount, defaultTimeout).catch(() => undefined);
+        }
       } catch (error: any) {
         // Clear the selected wallet
         setName(null);
         // Don't throw error, but handleError will still be called
       } finally {
         setConnecting(false);
+        setDeepLinkedWallet(null);
         isConnecting.current = false;
       }
     })();
-  }, [isConnecting, connected, autoConnect, adapter, readyState, setName]);
+  }, [
+    isConnecting,
+    connected,
+    autoConnect,
+    deepLinkedWallet,
+    adapter,
+    readyState,
+    setName,
+    savedAccount,
+    defaultTimeout
+  ]);
 
   // Connect the adapter to the wallet
   const connect = useCallback(
-    async (walletName: WalletName) => {
-      if (isConnecting.current || isDisconnecting.current || connected) return;
-      if (!name) {
-        setName(walletName);
-      } else {
-        if (!adapter) throw handleError(new WalletNotSelectedError());
+    async (walletName: WalletName, timeout?: number) => {
+      if (isConnecting.current || isDisconnecting.current) return;
 
+      async function connectAdapter(wAdapter: WalletAdapter) {
+        const wReadyState = wAdapter.readyState;
         if (
-          !(readyState === WalletReadyState.Installed || readyState === WalletReadyState.Loadable)
+          !(wReadyState === WalletReadyState.Installed || wReadyState === WalletReadyState.Loadable)
         ) {
           // Clear the selected wallet
-          setName(null);
+          if (!multiConnect) setName(null);
 
-          if (typeof window !== 'undefined') {
-            window.open(adapter.url, '_blank');
+          // Not where the wallet can't run at all, eg. an extension on mobile
+          if (typeof window !== 'undefined' && wReadyState === WalletReadyState.NotDetected) {
+            window.open(wAdapter.url, '_blank');
           }
 
           throw handleError(new WalletNotReadyError());
@@ -223,10 +437,10 @@ export const WalletProvider: FC<WalletProviderProps> = ({
         isConnecting.current = true;
         setConnecting(true);
         try {
-          await adapter.connect();
+          await wAdapter.connect(timeout ?? defaultTimeout);
         } catch (error: any) {
           // Clear the selected wallet
-          setName(null);
+          if (!multiConnect) setName(null);
           // Rethrow the error, and handleError will also be called
           throw error;
         } finally {
@@ -234,57 +448,238 @@ export const WalletProvider: FC<WalletProviderProps> = ({
           isConnecting.current = false;
         }
       }
+
+      // The wallet is connected right away and selected, the others stay connected
+      if (multiConnect) {
+        const wAdapter = adapters.find((candidate) => candidate.name === walletName);
+        if (!wAdapter) throw handleError(new WalletNotSelectedError());
+        if (!wAdapter.connected) await connectAdapter(wAdapter);
+        setName(walletName);
+        return;
+      }
+
+      if (connected) return;
+      if (!name) {
+        setName(walletName);
+      } else {
+        if (!adapter) throw handleError(new WalletNotSelectedError());
+        await connectAdapter(adapter);
+      }
     },
-    [isConnecting, isDisconnecting, connected, adapter, readyState, handleError, setName, name]
+    [
+      isConnecting,
+      isDisconnecting,
+      connected,
+      adapter,
+      adapters,
+      multiConnect,
+      handleError,
+      setName,
+      name,
+      defaultTimeout
+    ]
   );
 
-  // Disconnect the adapter from the wallet
-  const disconnect = useCallback(async () => {
-    if (isDisconnecting.current) return;
-    if (!adapter) return setName(null);
-
-    isDisconnecting.current = true;
-    setDisconnecting(true);
-    try {
-      await adapter.disconnect();
-    } catch (error: any) {
-      // Clear the selected wallet
-      setName(null);
-      // Rethrow the error, and handleError will also be called
-      throw error;
-    } finally {
-      setDisconnecting(false);
-      isDisconnecting.current = false;
-    }
-  }, [isDisconnecting, setName, adapter]);
+  // Disconnect the adapter from the wallet, or the connected wallet `target` names
+  const disconnect = useCallback(
+    async (target?: string) => {
+      if (isDisconnecting.current) return;
+      const wAdapter =
+        target === undefined
+          ? adapter
+          : connections.find((connection) => isTarget(connection, target))?.adapter;
+      if (!wAdapter) return target === undefined ? setName(null) : undefined;
+
+      isDisconnecting.current = true;
+      setDisconnecting(true);
+      try {
+        await wAdapter.disconnect();
+      } catch (error: any) {
+        // Clear the selected wallet
+        if (wAdapter === adapter) setName(null);
+        // Rethrow the error, and handleError will also be called
+        throw error;
+      } finally {
+        setDisconnecting(false);
+        isDisconnecting.current = false;
+      }
+    },
+    [isDisconnecting, setName, adapter, connections]
+  );
+
+  // The selected wallet, or the connected wallet `target` names by wallet name or account address
+  const connectionFor = useCallback(
+    (target?: string) => {
+      if (target === undefined) {
+        if (!adapter) throw handleError(new WalletNotSelectedError());
+        if (!connected) throw handleError(new WalletNotConnectedError());
+        return { wAdapter: adapter, wAccount: account, wNetwork: network };
+      }
+      const connection = connections.find((candidate) => isTarget(candidate, target));
+      if (!connection) {
+        throw handleError(new WalletNotConnectedError(`No connected wallet matches ${target}`));
+      }
+      return {
+        wAdapter: connection.adapter,
+        wAccount: connection.account,
+        wNetwork: connection.network
+      };
+    },
+    [adapter, account, network, connected, connections, handleError]
+  );
+
+  // Switch the selected wallet to another of its accounts, followed through its accountChange event
+  const switchAccount = useCallback(
+    async (address: string, timeout?: number) => {
+      const { wAdapter } = connectionFor();
+      if (!wAdapter.features.multiAccount || !wAdapter.switchAccount) {
+        throw handleError(notSupportedError(wAdapter, 'switching accounts', 'switchAccount'));
+      }
+      await wAdapter.switchAccount(address, timeout ?? defaultTimeout);
+    },
+    [connectionFor, handleError, defaultTimeout]
+  );
 
   // Send a transaction using the provided connection
   const signAndSubmitTransaction = useCallback(
-    async (transaction: TransactionPayload, option?: any) => {
-      if (!adapter) throw handleError(new WalletNotSelectedError());
-      if (!connected) throw handleError(new WalletNotConnectedError());
-      const response = await adapter.signAndSubmitTransaction(transaction, option);
-      return response;
+    async (
+      transaction: AnyTransactionPayload,
+      option?: SignAndSubmitOptions,
+      timeout?: number,
+      target?: string
+    ) => {
+      const { wAdapter, wAccount, wNetwork } = connectionFor(target);
+      const { simulateFirst, waitForConfirmation, confirmationTimeout, ...rest } = option || {};
+      const optionsError = unsupportedOptionsError(wAdapter, rest, 'signAndSubmitTransaction');
+      if (optionsError) throw handleError(optionsError);
+      let walletOptions: TransactionOptions | undefined = option && rest;
+      if (simulateFirst) {
+        const gasUnitPrice = (
+          rest.gas_unit_price || (await wAdapter.estimateGasUnitPrice())
+        ).toString();
+        const simulation = await wAdapter.simulateTransaction(transaction, {
+          ...rest,
+          gas_unit_price: gasUnitPrice
+        });
+        if (!simulation.success) {
+          throw handleError(
+            new WalletSimulationError(simulation.vmStatus, simulation, {
+              code: errorCodeFromMessage(simulation.vmStatus),
+              walletName: wAdapter.name,
+              operation: 'signAndSubmitTransaction'
+            })
+          );
+        }
+        // The wallet gets the price that was simulated, when it lets the dApp set one
+        if (wAdapter.supportedTransactionOptions.includes('gas_unit_price')) {
+          walletOptions = { ...rest, gas_unit_price: gasUnitPrice };
+        }
+      }
+      const response = await wAdapter.signAndSubmitTransaction(
+        transaction,
+        walletOptions,
+        timeout ?? defaultTimeout
+      );
+      const event = { hash: response.hash, walletName: wAdapter.name, payload: transaction };
+      const tracked: TrackedTransaction = {
+        hash: response.hash,
+        walletName: wAdapter.name,
+        account: wAccount?.address?.toString() || null,
+        network: wNetwork,
+        nodeUrl: wAdapter.nodeUrl,
+        payload: summarizePayload(transaction),
+        status: 'pending',
+        submittedAt: Date.now()
+      };
+      trackTransaction(tracked, { waiting: !!waitForConfirmation });
+      transactionEvents.emit('transactionSubmitted', event);
+      if (!waitForConfirmation) return response;
+
+      try {
+        const committed = await wAdapter.waitForTransaction(response.hash, confirmationTimeout);
+        settleTransaction(response.hash, settledTransaction(committed));
+        transactionEvents.emit('transactionConfirmed', { ...event, transaction: committed });
+        return committed;
+      } catch (error: any) {
+        if (error instanceof WalletTransactionFailedError) {
+          settleTransaction(response.hash, settledTransaction(error.error));
+          transactionEvents.emit('transactionFailed', { ...event, error });
+        } else {
+          // Gave up waiting, the history keeps following it
+          void pollTransaction(tracked);
+        }
+        throw error;
+      }
     },
-    [adapter, handleError, connected]
-  );
+    [
+      connectionFor,
+      handleError,
+      defaultTimeout,
+      transactionEvents,
+      trackTransaction,
+      settleTransaction,
+      pollTransaction
+    ]
+  ) as WalletContextState['signAndSubmitTransaction'];
 
   const signTransaction = useCallback(
-    async (transaction: TransactionPayload, option?: any) => {
-      if (!adapter) throw handleError(new WalletNotSelectedError());
-      if (!connected) throw handleError(new WalletNotConnectedError());
-      return adapter.signTransaction(transaction, option);
+    async (
+      transaction: AnyTransactionPayload,
+      option?: TransactionOptions,
+      timeout?: number,
+      target?: string
+    ) => {
+      const { wAdapter } = connectionFor(target);
+      if (!wAdapter.features.signTransaction) {
+        throw handleError(notSupportedError(wAdapter, 'signTransaction', 'signTransaction'));
+      }
+      const optionsError = unsupportedOptionsError(wAdapter, option, 'signTransaction');
+      if (optionsError) throw handleError(optionsError);
+      return wAdapter.signTransaction(transaction, option, timeout ?? defaultTimeout);
     },
-    [adapter, handleError, connected]
+    [connectionFor, handleError, defaultTimeout]
   );
 
   const signMessage = useCallback(
-    async (message: string) => {
-      if (!adapter) throw handleError(new WalletNotSelectedError());
-      if (!connected) throw handleError(new WalletNotConnectedError());
-      return adapter.signMessage(message);
+    async (message: string | SignMessagePayload, timeout?: number, target?: string) => {
+      const { wAdapter } = connectionFor(target);
+      const { signMessage: canSignMessage, structuredMessages } = wAdapter.features;
+      if (!canSignMessage || (typeof message !== 'string' && !structuredMessages)) {
+        const what = canSignMessage ? 'structured messages' : 'signMessage';
+        throw handleError(notSupportedError(wAdapter, what, 'signMessage'));
+      }
+      return typeof message === 'string'
+        ? wAdapter.signMessage(message, timeout ?? defaultTimeout)
+        : wAdapter.signMessage(message, timeout ?? defaultTimeout);
+    },
+    [connectionFor, handleError, defaultTimeout]
+  ) as WalletContextState['signMessage'];
+
+  const simulateTransaction = useCallback(
+    async (transaction: AnyTransactionPayload, option?: TransactionOptions, target?: string) => {
+      const { wAdapter } = connectionFor(target);
+      return wAdapter.simulateTransaction(transaction, option);
+    },
+    [connectionFor]
+  );
+
+  const estimateGasUnitPrice = useCallback(
+    async (target?: string) => {
+      const { wAdapter } = connectionFor(target);
+      return wAdapter.estimateGasUnitPrice();
+    },
+    [connectionFor]
+  );
+
+  const supports = useCallback((feature: WalletFeature) => !!adapter?.supports(feature), [adapter]);
+
+  const verifyMessage = useCallback(
+    ({ fullMessage, signature }: Omit<SignedMessage, 'publicKey'>, target?: string) => {
+      const { wAccount } = connectionFor(target);
+      if (!wAccount?.publicKey) throw handleError(new WalletNotConnectedError());
+      return verifySignedMessage({ publicKey: wAccount.publicKey, fullMessage, signature });
     },
-    [adapter, handleError, connected]
+    [connectionFor, handleError]
   );
 
   return (
@@ -293,18 +688,29 @@ export const WalletProvider: FC<WalletProviderProps> = ({
         wallets,
         wallet,
         account,
+        accounts,
+        network,
         connected,
         connecting,
         disconnecting,
+        connections,
         autoConnect,
         select: setName,
         connect,
         disconnect,
+        switchAccount,
         signAndSubmitTransaction,
         signTransaction,
-        signMessage
+        signMessage,
+        verifyMessage,
+        simulateTransaction,
+        estimateGasUnitPrice,
+        transactionEvents,
+        supports
       }}>
-      {children}
+      <TransactionsContext.Provider value={{ transactions, exportTransactions, clearTransactions }}>
+        {children}
+      </TransactionsContext.Provider>
     </WalletContext.Provider>
   );
 };
@@ -1,19 +1,59 @@
+/** Why a wallet operation failed, the same across wallets whatever their provider reports */
+export enum WalletErrorCode {
+  UserRejected = 'USER_REJECTED',
+  Timeout = 'TIMEOUT',
+  NotInstalled = 'NOT_INSTALLED',
+  Locked = 'LOCKED',
+  NetworkMismatch = 'NETWORK_MISMATCH',
+  InsufficientBalance = 'INSUFFICIENT_BALANCE',
+  Unsupported = 'UNSUPPORTED',
+  Internal = 'INTERNAL'
+}
+
+export interface WalletErrorDetails {
+  code?: WalletErrorCode;
+  walletName?: string;
+  /** Adapter method that failed, eg. `signTransaction` */
+  operation?: string;
+}
+
 export class WalletError extends Error {
+  /** What the wallet originally threw or answered with */
   public error: any;
 
-  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
-  constructor(message?: string, error?: any) {
+  /** Taken from the wrapped error when it is a `WalletError` itself, `Internal` otherwise */
+  public code: WalletErrorCode;
+
+  public walletName?: string;
+
+  public operation?: string;
+
+  constructor(
+    message?: string,
+    // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+    error?: any,
+    { code, walletName, operation }: WalletErrorDetails = {}
+  ) {
     super(message);
     this.error = error;
+    this.code = code || (error instanceof WalletError ? error.code : WalletErrorCode.Internal);
+    this.walletName = walletName;
+    this.operation = operation;
   }
 }
 
+export type WalletErrorClass = new (
+  ...args: ConstructorParameters<typeof WalletError>
+) => WalletError;
+
 export class WalletNotSelectedError extends WalletError {
   name = 'WalletNotSelectedError';
 }
 
 export class WalletNotReadyError extends WalletError {
   name = 'WalletNotReadyError';
+
+  code = WalletErrorCode.NotInstalled;
 }
 
 export class WalletLoadError extends WalletError {
@@ -24,6 +64,10 @@ export class WalletConfigError extends WalletError {
   name = 'WalletConfigError';
 }
 
+export class WalletArgumentError extends WalletError {
+  name = 'WalletArgumentError';
+}
+
 export class WalletConnectionError extends WalletError {
   name = 'WalletConnectionError';
 }
@@ -68,14 +112,58 @@ export class WalletSignTransactionError extends WalletError {
   name = 'WalletSignTransactionError';
 }
 
+/** Simulation showed the transaction would fail, or the transaction couldn't be simulated */
+export class WalletSimulationError extends WalletError {
+  name = 'WalletSimulationError';
+}
+
+/** The transaction was committed but aborted on chain, `error` holds the committed transaction */
+export class WalletTransactionFailedError extends WalletError {
+  name = 'WalletTransactionFailedError';
+
+  get vmStatus(): string {
+    return this.error?.vm_status;
+  }
+
+  get hash(): string {
+    return this.error?.hash;
+  }
+}
+
+/** The wallet has no way to do what was asked, eg. honour a transaction option */
+export class WalletMethodNotSupportedError extends WalletError {
+  name = 'WalletMethodNotSupportedError';
+
+  code = WalletErrorCode.Unsupported;
+}
+
 export class WalletTimeoutError extends WalletError {
   name = 'WalletTimeoutError';
+
+  code = WalletErrorCode.Timeout;
+}
+
+export class WalletUserRejectedError extends WalletError {
+  name = 'WalletUserRejectedError';
+
+  code = WalletErrorCode.UserRejected;
 }
 
 export class WalletWindowBlockedError extends WalletError {
   name = 'WalletWindowBlockedError';
 }
 
+/** Closing the popup is how users turn down web wallet requests */
 export class WalletWindowClosedError extends WalletError {
   name = 'WalletWindowClosedError';
+
+  code = WalletErrorCode.UserRejected;
+}
+
+export class SignInMessageError extends WalletError {
+  name = 'SignInMessageError';
+}
+
+export class SignInVerificationError extends WalletError {
+  name = 'SignInVerificationError';
 }
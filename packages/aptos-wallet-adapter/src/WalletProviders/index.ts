@@ -1,3 +1,5 @@
 export * from './WalletProvider';
 export * from './errors';
 export * from './useWallet';
+export * from './useSignIn';
+export * from './useTransactions';
@@ -0,0 +1,93 @@
+import { useCallback, useState } from 'react';
+import { createSignInMessage, SignInMessage } from '../utilities/signInMessage';
+import { WalletNotConnectedError } from './errors';
+import { useWallet } from './useWallet';
+
+export interface UseSignInOptions {
+  /** Fetches a fresh nonce from the server that will verify the sign in */
+  getNonce(): Promise<string>;
+  statement?: string;
+  resources?: string[];
+  /** How long (ms) the signed message stays valid, no expiration when omitted */
+  expiresIn?: number;
+  /** Defaults to the current page's host and origin */
+  domain?: string;
+  uri?: string;
+  timeout?: number;
+}
+
+/** What the server needs to verify a sign in */
+export interface SignInPayload {
+  message: string;
+  fields: SignInMessage;
+  signature: string;
+  publicKey: string;
+}
+
+export interface SignInState {
+  signIn(): Promise<SignInPayload>;
+  signingIn: boolean;
+}
+
+/**
+ * Sign-In with Aptos for the connected wallet: fetches a nonce, builds the message and asks the
+ * wallet to sign it verbatim.
+ */
+export function useSignIn({
+  getNonce,
+  statement,
+  resources,
+  expiresIn,
+  domain,
+  uri,
+  timeout
+}: UseSignInOptions): SignInState {
+  const { wallet, account, connected, signMessage } = useWallet();
+  const [signingIn, setSigningIn] = useState(false);
+
+  const signIn = useCallback(async () => {
+    if (!wallet || !connected || !account?.address || !account.publicKey) {
+      throw new WalletNotConnectedError();
+    }
+
+    setSigningIn(true);
+    try {
+      const [nonce, chainId] = await Promise.all([getNonce(), wallet.adapter.getChainId()]);
+      const issuedAt = new Date();
+      const fields: SignInMessage = {
+        domain: domain ?? window.location.host,
+        address: account.address.toString(),
+        statement,
+        uri: uri ?? window.location.origin,
+        version: '1',
+        chainId,
+        nonce,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime:
+          expiresIn !== undefined
+            ? new Date(issuedAt.getTime() + expiresIn).toISOString()
+            : undefined,
+        resources
+      };
+      const message = createSignInMessage(fields);
+      const signature = await signMessage(message, timeout);
+      return { message, fields, signature, publicKey: account.publicKey.toString() };
+    } finally {
+      setSigningIn(false);
+    }
+  }, [
+    wallet,
+    account,
+    connected,
+    signMessage,
+    getNonce,
+    statement,
+    resources,
+    expiresIn,
+    domain,
+    uri,
+    timeout
+  ]);
+
+  return { signIn, signingIn };
+}
@@ -0,0 +1,51 @@
+import { HexEncodedBytes } from 'aptos/src/generated';
+import { createContext, useContext } from 'react';
+import { WalletAdapterNetwork, WalletName } from '../WalletAdapters/BaseAdapter';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+/** What was sent, without the arguments, which may not survive JSON */
+export interface TransactionPayloadSummary {
+  type: string;
+  /** Entry function id, eg. `0x1::coin::transfer` */
+  function?: string;
+  typeArguments?: string[];
+}
+
+export interface TrackedTransaction {
+  hash: HexEncodedBytes;
+  walletName: WalletName;
+  /** Address of the account that sent it */
+  account: string | null;
+  network: WalletAdapterNetwork | null;
+  /** Node it was submitted through, missing from entries stored before it was recorded */
+  nodeUrl?: string;
+  payload: TransactionPayloadSummary;
+  status: TransactionStatus;
+  /** VM status of the committed transaction */
+  vmStatus?: string;
+  /** Why a transaction that never got committed failed, eg. the node rejected it */
+  error?: string;
+  /** Unix time (ms) the transaction was submitted */
+  submittedAt: number;
+  /** Unix time (ms) the transaction was confirmed or failed */
+  settledAt?: number;
+}
+
+export interface TransactionsContextState {
+  /** Transactions sent through `signAndSubmitTransaction`, most recent first */
+  transactions: TrackedTransaction[];
+  /** The history as JSON, eg. for a download link */
+  exportTransactions(): string;
+  clearTransactions(): void;
+}
+
+const DEFAULT_CONTEXT = {
+  transactions: []
+} as unknown as TransactionsContextState;
+
+export const TransactionsContext = createContext<TransactionsContextState>(DEFAULT_CONTEXT);
+
+export function useTransactions(): TransactionsContextState {
+  return useContext(TransactionsContext);
+}
@@ -1,41 +1,138 @@
-import { TransactionPayload, HexEncodedBytes } from 'aptos/src/generated';
+import { HexEncodedBytes, UserTransaction } from 'aptos/src/generated';
 import { createContext, useContext } from 'react';
 import {
   AccountKeys,
+  EventEmitter,
+  SignMessagePayload,
+  SignMessageResponse,
   WalletAdapter,
+  WalletAdapterNetwork,
+  WalletFeature,
   WalletName,
   WalletReadyState
 } from '../WalletAdapters/BaseAdapter';
+import { AnyTransactionPayload } from '../utilities/bcsPayload';
+import { SimulationResult } from '../utilities/simulateTransaction';
+import { TransactionOptions } from '../utilities/transactionOptions';
+import { SignedMessage } from '../utilities/verifySignedMessage';
+import { WalletTransactionFailedError } from './errors';
 
 export interface Wallet {
   adapter: WalletAdapter;
   readyState: WalletReadyState;
 }
 
+/** A connected wallet, with the account and network it is on */
+export interface WalletConnection {
+  walletName: WalletName;
+  adapter: WalletAdapter;
+  account: AccountKeys;
+  network: WalletAdapterNetwork;
+}
+
+export interface TransactionEvent {
+  hash: HexEncodedBytes;
+  walletName: WalletName;
+  payload: AnyTransactionPayload;
+}
+
+/** Emitted by `transactionEvents`, confirmation and failure only for submissions that wait */
+export interface TransactionEvents {
+  transactionSubmitted(event: TransactionEvent): void;
+  transactionConfirmed(event: TransactionEvent & { transaction: UserTransaction }): void;
+  transactionFailed(event: TransactionEvent & { error: WalletTransactionFailedError }): void;
+}
+
+export interface SignAndSubmitOptions extends TransactionOptions {
+  /** Simulate before prompting the wallet and reject when the transaction would fail */
+  simulateFirst?: boolean;
+  /** Resolve with the committed transaction instead of the hash */
+  waitForConfirmation?: boolean;
+  /** How long (ms) to wait for the transaction to be committed */
+  confirmationTimeout?: number;
+}
+
 export interface WalletContextState {
   autoConnect: boolean;
   wallets: Wallet[];
   wallet: Wallet | null;
   account: AccountKeys | null;
+  /**
+   * Accounts of the selected wallet the dApp may switch to, only the connected one unless the
+   * wallet has the `multiAccount` feature
+   */
+  accounts: AccountKeys[];
+  network: WalletAdapterNetwork | null;
   connecting: boolean;
   connected: boolean;
   disconnecting: boolean;
+  /**
+   * Every connected wallet. With `multiConnect` wallets stay connected when another one is
+   * selected, methods taking a `target` (wallet name or account address) act on one of them
+   * instead of the selected wallet.
+   */
+  connections: WalletConnection[];
   select(walletName: WalletName): void;
-  connect(walletName: string): Promise<void>;
-  disconnect(): Promise<void>;
+  connect(walletName: string, timeout?: number): Promise<void>;
+  disconnect(target?: string): Promise<void>;
+  /** Makes another of the selected wallet's `accounts` the connected one, it is kept on reload */
+  switchAccount(address: string, timeout?: number): Promise<void>;
+  /**
+   * With `options.simulateFirst` the transaction is simulated before the wallet is prompted, and
+   * rejected with a `WalletSimulationError` when it would fail. With `options.waitForConfirmation`
+   * it resolves with the committed transaction, waiting up to `options.confirmationTimeout` (ms),
+   * and rejects with a `WalletTransactionFailedError` when it aborted on chain.
+   * Transaction options the wallet can't honour reject with a `WalletMethodNotSupportedError`.
+   */
+  signAndSubmitTransaction(
+    transaction: AnyTransactionPayload,
+    options: SignAndSubmitOptions & { waitForConfirmation: true },
+    timeout?: number,
+    target?: string
+  ): Promise<UserTransaction>;
   signAndSubmitTransaction(
-    transaction: TransactionPayload,
-    options?: any
+    transaction: AnyTransactionPayload,
+    options?: SignAndSubmitOptions,
+    timeout?: number,
+    target?: string
   ): Promise<{ hash: HexEncodedBytes }>;
-  signTransaction(transaction: TransactionPayload, options?: any): Promise<Uint8Array>;
-  signMessage(message: string): Promise<string>;
+  signTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    timeout?: number,
+    target?: string
+  ): Promise<Uint8Array>;
+  signMessage(message: string, timeout?: number, target?: string): Promise<string>;
+  signMessage(
+    payload: SignMessagePayload,
+    timeout?: number,
+    target?: string
+  ): Promise<SignMessageResponse>;
+  /** Runs the transaction through the node's simulator as the connected account */
+  simulateTransaction(
+    transaction: AnyTransactionPayload,
+    options?: TransactionOptions,
+    target?: string
+  ): Promise<SimulationResult>;
+  /** Gas unit price suggested by the node of the selected wallet, or of the one `target` names */
+  estimateGasUnitPrice(target?: string): Promise<bigint>;
+  transactionEvents: EventEmitter<TransactionEvents>;
+  /**
+   * Whether the selected wallet has a feature, false without a wallet. Calls relying on a missing
+   * feature reject with a `WalletMethodNotSupportedError` before reaching the wallet.
+   */
+  supports(feature: WalletFeature): boolean;
+  /** Checks a signature over `fullMessage` against the connected account's public key */
+  verifyMessage(message: Omit<SignedMessage, 'publicKey'>, target?: string): boolean;
 }
 
 const DEFAULT_CONTEXT = {
   autoConnect: false,
   connecting: false,
   connected: false,
-  disconnecting: false
+  disconnecting: false,
+  accounts: [] as AccountKeys[],
+  connections: [] as WalletConnection[]
 } as WalletContextState;
 
 export const WalletContext = createContext<WalletContextState>(
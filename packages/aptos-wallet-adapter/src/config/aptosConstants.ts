@@ -1,15 +1,32 @@
 import { AptosClient, FaucetClient } from 'aptos';
+import type { WalletAdapterNetwork } from '../WalletAdapters/BaseAdapter';
 
 export const WEBWALLET_URL = 'https://hippo-wallet-test.web.app';
 // export const WEBWALLET_URL = 'http://localhost:3030';
 
 export const LOCAL_NODE_URL = 'http://127.0.0.1:8080';
 export const DEVNET_NODE_URL = 'https://fullnode.devnet.aptoslabs.com/v1';
+export const TESTNET_NODE_URL = 'https://fullnode.testnet.aptoslabs.com/v1';
+export const MAINNET_NODE_URL = 'https://fullnode.mainnet.aptoslabs.com/v1';
 export const LOCAL_FAUCET_URL = 'http://127.0.0.1:8081';
 export const DEVNET_FAUCET_URL = 'https://faucet.devnet.aptoslabs.com';
 
 export const NODE_URL = DEVNET_NODE_URL;
 export const FAUCET_URL = DEVNET_FAUCET_URL;
 
+// Keyed by the enum values so this module only needs BaseAdapter's types, which keeps it free of
+// an import cycle with the adapters
+export const NETWORK_NODE_URLS: Record<WalletAdapterNetwork, string> = {
+  mainnet: MAINNET_NODE_URL,
+  testnet: TESTNET_NODE_URL,
+  devnet: DEVNET_NODE_URL
+};
+
+/** How long (ms) to wait for a submitted transaction to be committed */
+export const DEFAULT_CONFIRMATION_TIMEOUT = 30000;
+
+/** How long (ms) adapters look for their wallet before settling on `NotDetected` */
+export const DEFAULT_DISCOVERY_TIMEOUT = 10000;
+
 export const aptosClient = new AptosClient(NODE_URL);
 export const faucetClient = new FaucetClient(NODE_URL, FAUCET_URL);
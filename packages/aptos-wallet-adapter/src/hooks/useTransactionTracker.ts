@@ -0,0 +1,120 @@
+import { AptosClient } from 'aptos';
+import { EntryFunctionPayload, UserTransaction } from 'aptos/src/generated';
+import { useCallback, useEffect, useRef } from 'react';
+import { DEFAULT_CONFIRMATION_TIMEOUT, NETWORK_NODE_URLS } from '../config/aptosConstants';
+import { AnyTransactionPayload, bcsEntryFunctionId, isBcsPayload } from '../utilities/bcsPayload';
+import { errorMessage } from '../utilities/util';
+import { TrackedTransaction, TransactionPayloadSummary } from '../WalletProviders/useTransactions';
+import { useLocalStorage } from './useLocalStorage';
+
+/** Older transactions are dropped from the history beyond this */
+const MAX_TRACKED_TRANSACTIONS = 100;
+
+export function summarizePayload(payload: AnyTransactionPayload): TransactionPayloadSummary {
+  if (isBcsPayload(payload)) {
+    const func = bcsEntryFunctionId(payload);
+    return func ? { type: 'entry_function_payload', function: func } : { type: 'bcs_payload' };
+  }
+  const {
+    type,
+    function: func,
+    type_arguments: typeArguments
+  } = payload as EntryFunctionPayload & {
+    type: string;
+  };
+  return { type, function: func, typeArguments };
+}
+
+export const settledTransaction = (
+  transaction: UserTransaction
+): Pick<TrackedTransaction, 'status' | 'vmStatus' | 'settledAt'> => ({
+  status: transaction.success ? 'confirmed' : 'failed',
+  vmStatus: transaction.vm_status,
+  settledAt: Date.now()
+});
+
+/**
+ * Transaction history kept in local storage under `storageKey`. Pending transactions are polled
+ * until they settle, including the ones a previous page load left pending.
+ */
+export function useTransactionTracker(storageKey: string) {
+  const [transactions, setTransactions] = useLocalStorage<TrackedTransaction[]>(storageKey, []);
+  const polled = useRef(new Set<string>());
+  // Cleared on unmount, polls still running then leave the transaction pending for the next mount
+  const mounted = useRef(false);
+
+  const settle = useCallback(
+    (hash: string, changes: Partial<TrackedTransaction>) => {
+      if (!mounted.current) return;
+      setTransactions((current) =>
+        current.map((transaction) =>
+          transaction.hash === hash && transaction.status === 'pending'
+            ? { ...transaction, ...changes }
+            : transaction
+        )
+      );
+    },
+    [setTransactions]
+  );
+
+  const poll = useCallback(
+    async ({
+      hash,
+      network,
+      nodeUrl = network ? NETWORK_NODE_URLS[network] : undefined
+    }: TrackedTransaction) => {
+      // Polled once per page load, transactions that outlive it are polled again after a reload
+      if (!nodeUrl || polled.current.has(hash)) return;
+      polled.current.add(hash);
+      try {
+        const transaction = await new AptosClient(nodeUrl).waitForTransactionWithResult(hash, {
+          timeoutSecs: DEFAULT_CONFIRMATION_TIMEOUT / 1000
+        });
+        settle(hash, settledTransaction(transaction as UserTransaction));
+      } catch (error: any) {
+        // The node turned the request down, not yet knowing the transaction is a 404 it retries.
+        // Anything else, like running out of time before it got committed, leaves it pending.
+        if (error?.status >= 400 && error?.status < 500) {
+          settle(hash, { status: 'failed', error: errorMessage(error), settledAt: Date.now() });
+        }
+      }
+    },
+    [settle]
+  );
+
+  /** Records a submitted transaction, polling it until it settles unless the caller waits for it */
+  const track = useCallback(
+    (transaction: TrackedTransaction, { waiting = false } = {}) => {
+      setTransactions((current) =>
+        [transaction, ...current.filter(({ hash }) => hash !== transaction.hash)].slice(
+          0,
+          MAX_TRACKED_TRANSACTIONS
+        )
+      );
+      if (!waiting) void poll(transaction);
+    },
+    [setTransactions, poll]
+  );
+
+  // Resume polling what the previous page load left pending, later transactions are polled as
+  // they are tracked
+  const loaded = useRef(transactions);
+  useEffect(() => {
+    mounted.current = true;
+    loaded.current
+      .filter(({ status }) => status === 'pending')
+      .forEach((transaction) => void poll(transaction));
+    return () => {
+      mounted.current = false;
+    };
+  }, [poll]);
+
+  const exportTransactions = useCallback(
+    () => JSON.stringify(transactions, null, 2),
+    [transactions]
+  );
+
+  const clearTransactions = useCallback(() => setTransactions([]), [setTransactions]);
+
+  return { transactions, track, settle, poll, exportTransactions, clearTransactions };
+}
@@ -1,2 +1,3 @@
 export * from './WalletProviders';
 export * from './WalletAdapters';
+export * from './utilities';
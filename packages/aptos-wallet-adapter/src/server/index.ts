@@ -0,0 +1,6 @@
+export * from './nonce';
+export * from './session';
+export * from './verifySignIn';
+export * from './withAptosSession';
+export * from '../utilities';
+export * from '../WalletProviders/errors';
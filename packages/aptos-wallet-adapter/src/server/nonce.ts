@@ -0,0 +1,46 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Where issued nonces live until a sign in uses them. Back it with a shared store (Redis, a
+ * database table, ...) when the API runs on more than one instance.
+ */
+export interface NonceStore {
+  /** Remembers a freshly issued nonce until `expiresAt` (ms since epoch) */
+  save(nonce: string, expiresAt: number): Promise<void>;
+  /** Forgets the nonce and resolves whether it was issued and hasn't expired, so each is used once */
+  consume(nonce: string): Promise<boolean>;
+}
+
+/** Keeps nonces in process memory, fine for a single server or for tests */
+export class MemoryNonceStore implements NonceStore {
+  protected _nonces = new Map<string, number>();
+
+  async save(nonce: string, expiresAt: number): Promise<void> {
+    this._nonces.set(nonce, expiresAt);
+  }
+
+  async consume(nonce: string): Promise<boolean> {
+    const expiresAt = this._nonces.get(nonce);
+    this._nonces.delete(nonce);
+    this._pruneExpired();
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  private _pruneExpired(): void {
+    const now = Date.now();
+    this._nonces.forEach((expiresAt, nonce) => {
+      if (expiresAt <= now) this._nonces.delete(nonce);
+    });
+  }
+}
+
+export const DEFAULT_NONCE_TTL = 5 * 60 * 1000;
+
+/** 32 hex characters, which satisfies the alphanumeric nonce of a sign in message */
+export const generateNonce = (): string => randomBytes(16).toString('hex');
+
+export async function issueNonce(store: NonceStore, ttl = DEFAULT_NONCE_TTL): Promise<string> {
+  const nonce = generateNonce();
+  await store.save(nonce, Date.now() + ttl);
+  return nonce;
+}
@@ -0,0 +1,36 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface AptosSession {
+  address: string;
+  publicKey: string;
+  chainId: number;
+  /** ms since epoch */
+  issuedAt: number;
+  expiresAt: number;
+}
+
+const sign = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+/** `base64url(json).base64url(hmac-sha256)`, readable by the client but not forgeable */
+export const createSessionToken = (session: AptosSession, secret: string): string => {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+};
+
+/** Resolves the session of a token signed with `secret`, or null if it was tampered with or expired */
+export const readSessionToken = (token: string, secret: string): AptosSession | null => {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as AptosSession;
+    return session.expiresAt > Date.now() ? session : null;
+  } catch (error: any) {
+    return null;
+  }
+};
@@ -0,0 +1,109 @@
+import { AptosClient, HexString } from 'aptos';
+import { createHash } from 'crypto';
+import { SignInVerificationError } from '../WalletProviders/errors';
+import { parseSignInMessage, SignInMessage } from '../utilities/signInMessage';
+import { BytesLike, toBytes, verifySignedMessage } from '../utilities/verifySignedMessage';
+import { NonceStore } from './nonce';
+
+const ED25519_SCHEME = 0;
+const MULTI_ED25519_SCHEME = 1;
+const ED25519_PUBLIC_KEY_LENGTH = 32;
+
+/** What `useSignIn` hands to the client, posted to the server as is */
+export interface SignInRequest {
+  message: string;
+  signature: BytesLike;
+  publicKey: BytesLike;
+}
+
+export interface VerifySignInOptions {
+  nonceStore: NonceStore;
+  /** Expected `domain` of the message, eg. the API's own host */
+  domain?: string;
+  /** Expected chain id, any chain is accepted when omitted */
+  chainId?: number;
+  /**
+   * Node used to look up the account's authentication key, which differs from the one derived
+   * from its address once the key was rotated. Only the derived key is checked without a client.
+   */
+  client?: AptosClient;
+}
+
+/**
+ * Authentication key of a public key: `sha3-256(public_key | scheme)`, the scheme being 0 for
+ * ed25519 and 1 for multi-ed25519 keys.
+ */
+export const authKeyFromPublicKey = (publicKey: BytesLike): string => {
+  const keyBytes = toBytes(publicKey);
+  const scheme =
+    keyBytes.length === ED25519_PUBLIC_KEY_LENGTH ? ED25519_SCHEME : MULTI_ED25519_SCHEME;
+  const hash = createHash('sha3-256').update(keyBytes).update(Uint8Array.of(scheme)).digest();
+  return HexString.fromUint8Array(hash).hex();
+};
+
+const normalizeAddress = (address: string) =>
+  `0x${new HexString(address).noPrefix().toLowerCase().padStart(64, '0')}`;
+
+async function fetchAuthKey(client: AptosClient, address: string): Promise<string | undefined> {
+  try {
+    return (await client.getAccount(address)).authentication_key;
+  } catch (error: any) {
+    // Accounts that haven't been created on chain yet still use the key their address derives from
+    if (error?.status === 404) return undefined;
+    throw new SignInVerificationError('Could not look up the authentication key', error);
+  }
+}
+
+/**
+ * Checks a Sign-In with Aptos request end to end: the message format, domain, chain and validity
+ * window, the signature, that the public key controls the address, and finally that the nonce
+ * was issued by `nonceStore` and not used before. Throws a `SignInVerificationError` otherwise.
+ */
+export async function verifySignIn(
+  { message, signature, publicKey }: SignInRequest,
+  { nonceStore, domain, chainId, client }: VerifySignInOptions
+): Promise<SignInMessage> {
+  let fields: SignInMessage;
+  try {
+    fields = parseSignInMessage(message);
+  } catch (error: any) {
+    throw new SignInVerificationError(error?.message, error);
+  }
+
+  if (domain !== undefined && fields.domain !== domain) {
+    throw new SignInVerificationError(`Message is for ${fields.domain}, expected ${domain}`);
+  }
+  if (chainId !== undefined && fields.chainId !== chainId) {
+    throw new SignInVerificationError(
+      `Message is for chain ${fields.chainId}, expected ${chainId}`
+    );
+  }
+  const now = Date.now();
+  if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+    throw new SignInVerificationError('Message has expired');
+  }
+  if (fields.notBefore && Date.parse(fields.notBefore) > now) {
+    throw new SignInVerificationError('Message is not valid yet');
+  }
+
+  if (!verifySignedMessage({ publicKey, fullMessage: message, signature })) {
+    throw new SignInVerificationError('Invalid signature');
+  }
+
+  let authKey: string;
+  try {
+    authKey = authKeyFromPublicKey(publicKey);
+  } catch (error: any) {
+    throw new SignInVerificationError('Invalid public key', error);
+  }
+  const address = normalizeAddress(fields.address);
+  const expectedAuthKey = (client && (await fetchAuthKey(client, address))) || address;
+  if (normalizeAddress(expectedAuthKey) !== authKey) {
+    throw new SignInVerificationError('Public key does not control the address');
+  }
+
+  if (!(await nonceStore.consume(fields.nonce))) {
+    throw new SignInVerificationError('Unknown, expired or already used nonce');
+  }
+  return fields;
+}
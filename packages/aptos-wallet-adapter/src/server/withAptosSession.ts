@@ -0,0 +1,132 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { toBytes } from '../utilities/verifySignedMessage';
+import { HexString } from 'aptos';
+import { SignInVerificationError, WalletConfigError } from '../WalletProviders/errors';
+import { DEFAULT_NONCE_TTL, issueNonce } from './nonce';
+import { AptosSession, createSessionToken, readSessionToken } from './session';
+import { SignInRequest, verifySignIn, VerifySignInOptions } from './verifySignIn';
+
+export interface AptosSessionOptions extends VerifySignInOptions {
+  /** Key the session cookie is signed with, at least 32 characters */
+  secret: string;
+  cookieName?: string;
+  /** Session lifetime (ms) */
+  maxAge?: number;
+  nonceTtl?: number;
+  /** Answer 401 to requests without a valid session instead of calling the handler */
+  required?: boolean;
+  /** Only send the cookie over https, on by default in production */
+  secure?: boolean;
+}
+
+export interface AptosSessionContext {
+  /** Session from a valid cookie, or the one just started by `signIn` */
+  session: AptosSession | null;
+  issueNonce(): Promise<string>;
+  /** Verifies a request from `useSignIn` and sets the session cookie */
+  signIn(request: SignInRequest): Promise<AptosSession>;
+  signOut(): void;
+}
+
+export type AptosSessionRequest<Req extends IncomingMessage = IncomingMessage> = Req & {
+  aptos: AptosSessionContext;
+};
+
+const DEFAULT_COOKIE_NAME = 'aptos_session';
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+const MIN_SECRET_LENGTH = 32;
+
+const readCookie = (req: IncomingMessage, name: string): string | undefined => {
+  const cookie = (req.headers.cookie || '')
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`));
+  return cookie && decodeURIComponent(cookie.slice(name.length + 1));
+};
+
+const appendCookie = (res: ServerResponse, cookie: string) => {
+  const current = res.getHeader('Set-Cookie');
+  const cookies = current === undefined ? [] : Array.isArray(current) ? current : [String(current)];
+  res.setHeader('Set-Cookie', [...cookies, cookie]);
+};
+
+/**
+ * Wraps a Next.js (or plain Node) API handler with a wallet session kept in a signed, http only
+ * cookie. The handler gets `req.aptos` to read the session, issue nonces and sign users in or out.
+ * A `SignInVerificationError` thrown by the handler is answered with a 401.
+ */
+export function withAptosSession<Req extends IncomingMessage, Res extends ServerResponse>(
+  handler: (req: AptosSessionRequest<Req>, res: Res) => unknown,
+  {
+    secret,
+    cookieName = DEFAULT_COOKIE_NAME,
+    maxAge = DEFAULT_MAX_AGE,
+    nonceTtl = DEFAULT_NONCE_TTL,
+    required = false,
+    secure = process.env.NODE_ENV === 'production',
+    ...verifyOptions
+  }: AptosSessionOptions
+): (req: Req, res: Res) => Promise<void> {
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    throw new WalletConfigError(`Session secret must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
+
+  const setSessionCookie = (res: Res, value: string, cookieMaxAge: number) =>
+    appendCookie(
+      res,
+      [
+        `${cookieName}=${encodeURIComponent(value)}`,
+        'Path=/',
+        'HttpOnly',
+        'SameSite=Lax',
+        `Max-Age=${Math.floor(cookieMaxAge / 1000)}`,
+        ...(secure ? ['Secure'] : [])
+      ].join('; ')
+    );
+
+  const unauthorized = (res: Res, error: string) => {
+    res.statusCode = 401;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error }));
+  };
+
+  return async (req, res) => {
+    const token = readCookie(req, cookieName);
+    const context: AptosSessionContext = {
+      session: token ? readSessionToken(token, secret) : null,
+      issueNonce: () => issueNonce(verifyOptions.nonceStore, nonceTtl),
+      signIn: async (request) => {
+        const fields = await verifySignIn(request, verifyOptions);
+        const issuedAt = Date.now();
+        const session: AptosSession = {
+          address: fields.address,
+          publicKey: HexString.fromUint8Array(toBytes(request.publicKey)).hex(),
+          chainId: fields.chainId,
+          issuedAt,
+          expiresAt: issuedAt + maxAge
+        };
+        setSessionCookie(res, createSessionToken(session, secret), maxAge);
+        context.session = session;
+        return session;
+      },
+      signOut: () => {
+        setSessionCookie(res, '', 0);
+        context.session = null;
+      }
+    };
+
+    if (required && !context.session) {
+      unauthorized(res, 'Not signed in');
+      return;
+    }
+
+    const sessionRequest = req as AptosSessionRequest<Req>;
+    sessionRequest.aptos = context;
+    try {
+      await handler(sessionRequest, res);
+    } catch (error: any) {
+      if (!(error instanceof SignInVerificationError) || res.headersSent) throw error;
+      unauthorized(res, error.message);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import { BCS, HexString, TxnBuilderTypes } from 'aptos';
+import { MoveType, TransactionPayload } from 'aptos/src/generated';
+
+/** Payloads accepted by the adapters: the JSON form of the node API or the SDK's BCS types */
+export type AnyTransactionPayload = TransactionPayload | TxnBuilderTypes.TransactionPayload;
+
+const { Deserializer, bcsToBytes } = BCS;
+
+const {
+  TransactionArgumentAddress,
+  TransactionArgumentBool,
+  TransactionArgumentU128,
+  TransactionArgumentU64,
+  TransactionArgumentU8,
+  TransactionArgumentU8Vector,
+  TransactionPayloadEntryFunction,
+  TransactionPayloadScript,
+  TypeTagAddress,
+  TypeTagBool,
+  TypeTagSigner,
+  TypeTagStruct,
+  TypeTagU128,
+  TypeTagU64,
+  TypeTagU8,
+  TypeTagVector
+} = TxnBuilderTypes;
+
+const VECTOR_TYPE = /^vector<(.+)>$/;
+
+const GENERIC_TYPE = /\bT(\d+)\b/g;
+
+const STRING_TYPE = '0x1::string::String';
+
+/**
+ * Tells BCS payloads apart by shape rather than with `instanceof`, as a dApp may be built
+ * against another copy of the SDK than the adapter.
+ */
+export const isBcsPayload = (payload: any): payload is TxnBuilderTypes.TransactionPayload =>
+  typeof payload?.serialize === 'function';
+
+/** Reads a BCS payload back with this package's SDK classes, whichever copy created it */
+export const normalizeBcsPayload = (
+  payload: TxnBuilderTypes.TransactionPayload
+): TxnBuilderTypes.TransactionPayload =>
+  TxnBuilderTypes.TransactionPayload.deserialize(new Deserializer(bcsToBytes(payload)));
+
+const shortAddress = (address: TxnBuilderTypes.AccountAddress) =>
+  HexString.fromUint8Array(address.address).toShortString();
+
+const entryFunctionId = ({
+  module_name: moduleId,
+  function_name: name
+}: TxnBuilderTypes.EntryFunction) =>
+  `${shortAddress(moduleId.address)}::${moduleId.name.value}::${name.value}`;
+
+export function typeTagToString(tag: TxnBuilderTypes.TypeTag): MoveType {
+  if (tag instanceof TypeTagBool) return 'bool';
+  if (tag instanceof TypeTagU8) return 'u8';
+  if (tag instanceof TypeTagU64) return 'u64';
+  if (tag instanceof TypeTagU128) return 'u128';
+  if (tag instanceof TypeTagAddress) return 'address';
+  if (tag instanceof TypeTagSigner) return 'signer';
+  if (tag instanceof TypeTagVector) return `vector<${typeTagToString(tag.value)}>`;
+  if (tag instanceof TypeTagStruct) {
+    const { address, module_name: moduleName, name, type_args: typeArgs } = tag.value;
+    const generics = typeArgs.length ? `<${typeArgs.map(typeTagToString).join(', ')}>` : '';
+    return `${shortAddress(address)}::${moduleName.value}::${name.value}${generics}`;
+  }
+  throw new Error('Unsupported type tag');
+}
+
+/**
+ * Decodes a BCS encoded argument of Move type `type` into its canonical form: integers above u8
+ * as bigint, `vector<u8>` as `Uint8Array` and addresses as hex strings.
+ */
+export function decodeArgument(deserializer: BCS.Deserializer, type: MoveType): any {
+  switch (type) {
+    case 'bool':
+      return deserializer.deserializeBool();
+    case 'u8':
+      return deserializer.deserializeU8();
+    case 'u64':
+      return deserializer.deserializeU64();
+    case 'u128':
+      return deserializer.deserializeU128();
+    case 'address':
+      return shortAddress(TxnBuilderTypes.AccountAddress.deserialize(deserializer));
+    case STRING_TYPE:
+      return deserializer.deserializeStr();
+    default:
+  }
+  const vector = VECTOR_TYPE.exec(type);
+  if (vector?.[1] === 'u8') return deserializer.deserializeBytes();
+  if (vector) {
+    const length = deserializer.deserializeUleb128AsU32();
+    return Array.from({ length }, () => decodeArgument(deserializer, vector[1]));
+  }
+  throw new Error(`Cannot decode an argument of type ${type}`);
+}
+
+const scriptArgument = (arg: TxnBuilderTypes.TransactionArgument) => {
+  if (arg instanceof TransactionArgumentAddress) return shortAddress(arg.value);
+  if (
+    arg instanceof TransactionArgumentBool ||
+    arg instanceof TransactionArgumentU8 ||
+    arg instanceof TransactionArgumentU64 ||
+    arg instanceof TransactionArgumentU128 ||
+    arg instanceof TransactionArgumentU8Vector
+  ) {
+    return arg.value;
+  }
+  throw new Error('Unsupported script argument');
+};
+
+/**
+ * Converts a BCS payload to the JSON form, with arguments in their canonical forms. Entry function
+ * arguments are only bytes, so `params` must hold the function's parameter types, without signer.
+ */
+export function bcsPayloadToJson(
+  payload: TxnBuilderTypes.TransactionPayload,
+  params?: MoveType[]
+): TransactionPayload {
+  const normalized = normalizeBcsPayload(payload);
+  if (normalized instanceof TransactionPayloadEntryFunction) {
+    const { ty_args: typeArgs, args } = normalized.value;
+    const func = entryFunctionId(normalized.value);
+    if (!params || params.length !== args.length) {
+      throw new Error(`Unknown parameter types for ${func}`);
+    }
+    const typeArguments = typeArgs.map(typeTagToString);
+    return {
+      type: 'entry_function_payload',
+      function: func,
+      type_arguments: typeArguments,
+      arguments: args.map((arg, i) =>
+        decodeArgument(
+          new Deserializer(arg),
+          params[i].replace(GENERIC_TYPE, (_, index) => typeArguments[Number(index)])
+        )
+      )
+    } as TransactionPayload;
+  }
+  if (normalized instanceof TransactionPayloadScript) {
+    const { code, ty_args: typeArgs, args } = normalized.value;
+    return {
+      type: 'script_payload',
+      code: { bytecode: HexString.fromUint8Array(code).hex() },
+      type_arguments: typeArgs.map(typeTagToString),
+      arguments: args.map(scriptArgument)
+    } as TransactionPayload;
+  }
+  throw new Error('Only entry function and script payloads can be converted to JSON');
+}
+
+/** Function id (`address::module::function`) of a BCS entry function payload */
+export const bcsEntryFunctionId = (payload: TxnBuilderTypes.TransactionPayload) => {
+  const normalized = normalizeBcsPayload(payload);
+  return normalized instanceof TransactionPayloadEntryFunction
+    ? entryFunctionId(normalized.value)
+    : undefined;
+};
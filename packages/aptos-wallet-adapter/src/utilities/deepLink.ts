@@ -0,0 +1,42 @@
+/** Query parameter telling the dApp, reopened in a wallet's in-app browser, which wallet to connect */
+export const DEEP_LINK_WALLET_PARAM = 'aptosWallet';
+
+/**
+ * Phones and tablets, where browsers don't run wallet extensions. iPadOS reports itself as a Mac,
+ * it is told apart by its touch screen.
+ */
+export function isMobile(): boolean {
+  if (typeof navigator === 'undefined') return false;
+  return (
+    /Android|iPhone|iPad|iPod|Mobile/i.test(navigator.userAgent) ||
+    (/Macintosh/.test(navigator.userAgent) && navigator.maxTouchPoints > 1)
+  );
+}
+
+/**
+ * Fills in a wallet's deep-link template, `{url}` being the current page and `{ref}` its origin,
+ * both URI encoded. The page is marked with the wallet to connect once it reopens.
+ */
+export function deepLinkUrl(template: string, walletName: string): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set(DEEP_LINK_WALLET_PARAM, walletName);
+  return template
+    .replace(/\{url\}/g, encodeURIComponent(url.toString()))
+    .replace(/\{ref\}/g, encodeURIComponent(window.location.origin));
+}
+
+/**
+ * Name of the wallet the page was reopened for through its deep link, if any. Removes the marker
+ * from the address bar so reloading doesn't count as coming back again.
+ */
+export function takeDeepLinkedWallet(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  const url = new URL(window.location.href);
+  const walletName = url.searchParams.get(DEEP_LINK_WALLET_PARAM);
+  if (walletName === null) return null;
+
+  url.searchParams.delete(DEEP_LINK_WALLET_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+  return walletName;
+}
@@ -0,0 +1,175 @@
+import { AptosClient, HexString } from 'aptos';
+import { MoveFunction, MoveModule, MoveType } from 'aptos/src/generated';
+import { WalletArgumentError } from '../WalletProviders/errors';
+
+/**
+ * Argument forms accepted in entry function payloads whatever the wallet: integers as number,
+ * bigint or decimal string, `vector<u8>` as `Uint8Array`, number array or hex string, addresses
+ * as hex string or `HexString`, and booleans.
+ */
+export type EntryFunctionArgument =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Uint8Array
+  | HexString
+  | EntryFunctionArgument[];
+
+/** How a wallet wants arguments in `TransactionPayload.arguments` */
+export interface ArgumentEncoding {
+  /** `u64`, `u128` and `u256`, which don't always fit in a number */
+  integers: 'string' | 'number' | 'bigint';
+  /** `vector<u8>` */
+  bytes: 'hex' | 'array' | 'uint8array';
+}
+
+/** What the fullnode JSON API takes, so what wallets passing payloads through to it expect */
+export const JSON_ARGUMENT_ENCODING: ArgumentEncoding = { integers: 'string', bytes: 'hex' };
+
+/** What the SDK's BCS transaction builder takes, it would read a string `vector<u8>` as UTF-8 */
+export const BCS_ARGUMENT_ENCODING: ArgumentEncoding = { integers: 'bigint', bytes: 'uint8array' };
+
+const VECTOR_TYPE = /^vector<(.+)>$/;
+
+const isHexBytes = (value: string) => /^0x([0-9a-fA-F]{2})*$/.test(value);
+
+const isDecimal = (value: string) => /^\d+$/.test(value);
+
+const isByteArray = (value: unknown[]) =>
+  value.length > 0 && value.every((item) => typeof item === 'number');
+
+const toBytes = (value: any): Uint8Array | undefined => {
+  if (value instanceof Uint8Array) return value;
+  if (value instanceof HexString) return value.toUint8Array();
+  if (Array.isArray(value) && isByteArray(value)) return Uint8Array.from(value);
+  if (typeof value === 'string' && isHexBytes(value)) return new HexString(value).toUint8Array();
+  return undefined;
+};
+
+const encodeBytes = (bytes: Uint8Array, { bytes: encoding }: ArgumentEncoding) => {
+  if (encoding === 'hex') return HexString.fromUint8Array(bytes).hex();
+  return encoding === 'array' ? Array.from(bytes) : bytes;
+};
+
+const MAX_SAFE_INTEGER = BigInt(Number.MAX_SAFE_INTEGER);
+
+const encodeInteger = (value: number | bigint | string, { integers }: ArgumentEncoding) => {
+  const integer = BigInt(value);
+  if (integers === 'bigint') return integer;
+  if (integers === 'string') return integer.toString();
+  // A number would silently round it, so the wallet would sign another amount
+  if (integer > MAX_SAFE_INTEGER || integer < -MAX_SAFE_INTEGER) {
+    throw new WalletArgumentError(`${integer} is too large for this wallet, which takes numbers`);
+  }
+  return Number(integer);
+};
+
+/**
+ * Converts `value` to what `encoding` wants for an argument of Move type `type`. Without a type,
+ * eg. when the ABI isn't known or for generic parameters, only bigints and bytes are converted.
+ */
+export function coerceArgument(
+  value: any,
+  type: MoveType | undefined,
+  encoding: ArgumentEncoding
+): any {
+  if (type === 'u64' || type === 'u128' || type === 'u256') {
+    return ['number', 'bigint', 'string'].includes(typeof value)
+      ? encodeInteger(value, encoding)
+      : value;
+  }
+  if (type === 'u8') {
+    return typeof value === 'string' || typeof value === 'bigint' ? Number(value) : value;
+  }
+  if (type === 'bool') {
+    return value === 'true' || value === 'false' ? value === 'true' : value;
+  }
+  if (type === 'address') {
+    if (value instanceof Uint8Array) return HexString.fromUint8Array(value).hex();
+    return value instanceof HexString ? value.hex() : value;
+  }
+  const vector = type && VECTOR_TYPE.exec(type);
+  if (vector?.[1] === 'u8') {
+    const bytes = toBytes(value);
+    return bytes ? encodeBytes(bytes, encoding) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => coerceArgument(item, vector?.[1], encoding));
+  }
+
+  if (typeof value === 'bigint') return encodeInteger(value, encoding);
+  if (value instanceof Uint8Array) return encodeBytes(value, encoding);
+  if (value instanceof HexString) return value.hex();
+  return value;
+}
+
+/** Parameter types of an entry function, without the signer the wallet provides */
+export const entryFunctionParams = (abi: MoveFunction): MoveType[] =>
+  abi.params.filter((param) => param !== 'signer' && param !== '&signer');
+
+export const coerceEntryFunctionArguments = (
+  args: any[],
+  params: MoveType[] | undefined,
+  encoding: ArgumentEncoding
+): any[] => args.map((arg, i) => coerceArgument(arg, params?.[i], encoding));
+
+/**
+ * Whether converting `args` for `encoding` depends on their Move types, eg. a number may be a
+ * `u8` or a `u64` and a hex string an address or bytes.
+ */
+export const needsArgumentTypes = (args: any[], encoding: ArgumentEncoding): boolean =>
+  args.some((arg) => {
+    if (typeof arg === 'number') return encoding.integers !== 'number';
+    if (typeof arg === 'string') {
+      return (
+        (encoding.integers !== 'string' && isDecimal(arg)) ||
+        (encoding.bytes !== 'hex' && isHexBytes(arg))
+      );
+    }
+    if (Array.isArray(arg)) {
+      return (encoding.bytes !== 'array' && isByteArray(arg)) || needsArgumentTypes(arg, encoding);
+    }
+    return false;
+  });
+
+const moduleId = (address: string, name: string) =>
+  `${new HexString(address).toShortString()}::${name}`;
+
+/**
+ * Entry function ABIs by module, either added up front or fetched from a node the first time one
+ * of its functions is called.
+ */
+export class EntryFunctionAbiCache {
+  protected _modules = new Map<string, Promise<MoveModule | undefined>>();
+
+  add(abi: MoveModule): void {
+    this._modules.set(moduleId(abi.address, abi.name), Promise.resolve(abi));
+  }
+
+  /**
+   * Parameter types of `func` (`address::module::function`), undefined when its module can't be
+   * fetched or has no such entry function.
+   */
+  async getParams(client: AptosClient, func: string): Promise<MoveType[] | undefined> {
+    const [address, moduleName, functionName] = func.split('::');
+    if (!address || !moduleName || !functionName) return undefined;
+
+    const id = moduleId(address, moduleName);
+    let module = this._modules.get(id);
+    if (!module) {
+      module = client.getAccountModule(address, moduleName).then(({ abi }) => abi);
+      this._modules.set(id, module);
+    }
+    try {
+      const abi = (await module)?.exposed_functions.find(
+        (fn) => fn.name === functionName && fn.is_entry
+      );
+      return abi && entryFunctionParams(abi);
+    } catch (error: any) {
+      // Fetch again next time, the node may have been unreachable
+      this._modules.delete(id);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export * from './verifySignedMessage';
+export * from './signInMessage';
+export * from './entryFunctionArguments';
+export * from './bcsPayload';
+export * from './simulateTransaction';
+export * from './transactionOptions';
+export * from './walletDiscovery';
+export * from './deepLink';
+export * from './relayPairing';
+export * from './relayTransport';
@@ -0,0 +1,156 @@
+import { HexString } from 'aptos';
+import nacl from 'tweetnacl';
+import { errorMessage } from './util';
+
+/** Scheme of the URI a remote wallet scans, usually shown as a QR code */
+export const RELAY_URI_SCHEME = 'aptos-relay';
+
+/** JSON-RPC error code a wallet answers with when the user declines, as in EIP-1193 */
+export const RELAY_USER_REJECTED = 4001;
+
+/** What both sides need to reach each other: the relay, the topic and the shared session key */
+export interface RelayPairing {
+  relayUrl: string;
+  topic: string;
+  /** Symmetric key sealing every message, it never reaches the relay */
+  key: Uint8Array;
+}
+
+/** The dApp as the wallet shows it when asked to approve the session */
+export interface RelayPeer {
+  name?: string;
+  url?: string;
+  network?: string;
+}
+
+/** Requests the dApp sends to the wallet, with what the wallet answers for each */
+export interface RelayMethods {
+  aptos_signTransaction: { signedTransaction: string };
+  aptos_signAndSubmitTransaction: { hash: string };
+  aptos_signMessage: { signature: string };
+  /** Accounts the user lets the dApp use, the session's included */
+  aptos_getAccounts: { accounts: RelayAccount[] };
+  /** Answered with the account the session is on from then on */
+  aptos_switchAccount: RelayAccount;
+  /** Answered right away while the wallet keeps the session, asked before resuming it */
+  aptos_ping: Record<string, never>;
+}
+
+export type RelayMethod = keyof RelayMethods;
+
+export interface RelayRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: RelayMethod;
+  params?: any;
+}
+
+export interface RelayResponse {
+  jsonrpc: '2.0';
+  id: number;
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+export interface RelayAccount {
+  address: string;
+  publicKey?: string;
+  authKey?: string;
+}
+
+/**
+ * Messages without an id, the wallet sends `aptos_approveSession` or `aptos_rejectSession` once
+ * the user answered the pairing. Either side may end the session with `aptos_disconnect`.
+ */
+export type RelayNotification = { jsonrpc: '2.0' } & (
+  | { method: 'aptos_approveSession'; params: RelayAccount & { network?: string } }
+  | { method: 'aptos_rejectSession'; params?: { message?: string } }
+  | { method: 'aptos_accountChanged'; params: RelayAccount }
+  | { method: 'aptos_networkChanged'; params: { network: string } }
+  | { method: 'aptos_disconnect' }
+);
+
+export type RelayMessage = RelayRequest | RelayResponse | RelayNotification;
+
+export type RelaySide = 'dapp' | 'wallet';
+
+/**
+ * What gets sealed: the message, the side sending it and its sequence number, which each side
+ * counts up from 1 for the messages it sends over the session. Receivers drop messages from their
+ * own side, and any not numbered above the last one they took, so the relay can neither echo nor
+ * replay them.
+ */
+export interface RelayEnvelope {
+  from: RelaySide;
+  seq: number;
+  message: RelayMessage;
+}
+
+/** A new pairing on `relayUrl` with a random topic and session key */
+export function createRelayPairing(relayUrl: string): RelayPairing {
+  return {
+    relayUrl,
+    topic: HexString.fromUint8Array(nacl.randomBytes(16)).noPrefix(),
+    key: nacl.randomBytes(nacl.secretbox.keyLength)
+  };
+}
+
+/** `aptos-relay:<topic>?relay=<url>&key=<hex>` followed by the dApp's details */
+export function relayPairingUri({ relayUrl, topic, key }: RelayPairing, peer: RelayPeer = {}) {
+  const params = new URLSearchParams({
+    relay: relayUrl,
+    key: HexString.fromUint8Array(key).noPrefix()
+  });
+  Object.entries(peer).forEach(([param, value]) => {
+    if (value) params.set(param, value);
+  });
+  return `${RELAY_URI_SCHEME}:${topic}?${params.toString()}`;
+}
+
+/** The wallet's side of `relayPairingUri`, throws on URIs that aren't a pairing */
+export function parseRelayPairingUri(uri: string): RelayPairing & { peer: RelayPeer } {
+  const match = new RegExp(`^${RELAY_URI_SCHEME}:([0-9a-f]+)\\?(.*)$`).exec(uri);
+  const params = new URLSearchParams(match?.[2]);
+  const relayUrl = params.get('relay');
+  const key = params.get('key');
+  if (!match || !relayUrl || !key) throw new Error('Invalid relay pairing URI');
+  return {
+    relayUrl,
+    topic: match[1]!,
+    key: new HexString(key).toUint8Array(),
+    peer: {
+      name: params.get('name') || undefined,
+      url: params.get('url') || undefined,
+      network: params.get('network') || undefined
+    }
+  };
+}
+
+/** Encrypts and authenticates `envelope` with the session key, as published to the relay */
+export function sealRelayMessage(envelope: RelayEnvelope, key: Uint8Array): string {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const box = nacl.secretbox(new TextEncoder().encode(JSON.stringify(envelope)), nonce, key);
+  return JSON.stringify({
+    nonce: HexString.fromUint8Array(nonce).hex(),
+    box: HexString.fromUint8Array(box).hex()
+  });
+}
+
+/**
+ * Undefined for messages that weren't sealed with the session key, or were tampered with. Throws
+ * on anything that isn't a sealed message at all.
+ */
+export function openRelayMessage(sealed: string, key: Uint8Array): RelayEnvelope | undefined {
+  let opened: Uint8Array | null;
+  try {
+    const { nonce, box } = JSON.parse(sealed);
+    opened = nacl.secretbox.open(
+      new HexString(box).toUint8Array(),
+      new HexString(nonce).toUint8Array(),
+      key
+    );
+  } catch (error: any) {
+    throw new Error(`Malformed relay message: ${errorMessage(error)}`);
+  }
+  return opened ? JSON.parse(new TextDecoder().decode(opened)) : undefined;
+}
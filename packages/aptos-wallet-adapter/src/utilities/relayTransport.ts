@@ -0,0 +1,188 @@
+import { errorMessage } from './util';
+
+/**
+ * Carries the sealed messages between a dApp and a remote wallet. Both sides subscribe to the
+ * session's topic, and each message published to it reaches the other side. The relay only ever
+ * sees ciphertext.
+ */
+export interface RelayTransport {
+  /**
+   * Subscribes to `topic`, `onMessage` is called with every message the other side publishes.
+   * `onError` is called with what goes wrong with the relay between publishes.
+   */
+  open(
+    topic: string,
+    onMessage: (message: string) => void,
+    onError?: (error: Error) => void
+  ): Promise<void>;
+  /** Publishes to the opened topic */
+  publish(message: string): Promise<void>;
+  close(): void;
+}
+
+/** Creates the transport for a relay URL, eg. the one from a pairing URI */
+export type RelayTransportFactory = (relayUrl: string) => RelayTransport;
+
+/** Frames exchanged with the relay server, which forwards `publish`es to the topic's subscribers */
+export type RelayFrame =
+  | { type: 'subscribe'; topic: string }
+  | { type: 'publish'; topic: string; message: string }
+  | { type: 'message'; topic: string; message: string };
+
+/** First wait (ms) before reopening a dropped socket, doubled on each failed attempt */
+const RECONNECT_DELAY = 1000;
+
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Talks to a relay server over a WebSocket. A socket that dropped is reopened, and the topic
+ * subscribed to again, right away when publishing and otherwise after a delay backing off up to
+ * 30 seconds. Attempts that fail are reported to `onError`.
+ */
+export class WebSocketRelayTransport implements RelayTransport {
+  protected _url: string;
+
+  protected _socket: WebSocket | null = null;
+
+  protected _opening: Promise<WebSocket> | null = null;
+
+  protected _topic: string | null = null;
+
+  protected _onMessage: ((message: string) => void) | null = null;
+
+  protected _onError: ((error: Error) => void) | null = null;
+
+  protected _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  protected _reconnectAttempts = 0;
+
+  constructor(url: string) {
+    this._url = url;
+  }
+
+  async open(
+    topic: string,
+    onMessage: (message: string) => void,
+    onError?: (error: Error) => void
+  ): Promise<void> {
+    this._topic = topic;
+    this._onMessage = onMessage;
+    this._onError = onError || null;
+    await this.socket();
+  }
+
+  async publish(message: string): Promise<void> {
+    if (!this._topic) throw new Error('Relay transport is not open');
+    const socket = await this.socket();
+    this.send(socket, { type: 'publish', topic: this._topic, message });
+  }
+
+  close(): void {
+    this._topic = null;
+    this._onMessage = null;
+    this._onError = null;
+    this._opening = null;
+    if (this._reconnectTimer) clearTimeout(this._reconnectTimer);
+    this._reconnectTimer = null;
+    this._reconnectAttempts = 0;
+    this._socket?.close();
+    this._socket = null;
+  }
+
+  protected socket(): Promise<WebSocket> {
+    if (this._socket?.readyState === WebSocket.OPEN) return Promise.resolve(this._socket);
+    if (!this._opening) {
+      this._opening = new Promise<WebSocket>((resolve, reject) => {
+        const socket = new WebSocket(this._url);
+        socket.onopen = () => {
+          this._socket = socket;
+          this._reconnectAttempts = 0;
+          if (this._topic) this.send(socket, { type: 'subscribe', topic: this._topic });
+          resolve(socket);
+        };
+        socket.onerror = () => reject(new Error(`Could not reach the relay at ${this._url}`));
+        socket.onclose = () => {
+          if (this._socket === socket) this._socket = null;
+          // `close` leaves the topic, nothing to reopen then
+          if (this._topic) this.reconnect();
+        };
+        socket.onmessage = (event: MessageEvent<string>) => {
+          let frame: RelayFrame;
+          try {
+            frame = JSON.parse(event.data);
+          } catch (error: any) {
+            this._onError?.(
+              new Error(`Malformed frame from the relay at ${this._url}: ${errorMessage(error)}`)
+            );
+            return;
+          }
+          if (frame.type === 'message' && frame.topic === this._topic) {
+            this._onMessage?.(frame.message);
+          }
+        };
+      }).finally(() => {
+        this._opening = null;
+      });
+    }
+    return this._opening;
+  }
+
+  protected reconnect(): void {
+    if (this._reconnectTimer) return;
+    const delay = Math.min(RECONNECT_DELAY * 2 ** this._reconnectAttempts, MAX_RECONNECT_DELAY);
+    this._reconnectAttempts += 1;
+    this._reconnectTimer = setTimeout(async () => {
+      this._reconnectTimer = null;
+      try {
+        await this.socket();
+      } catch (error: any) {
+        this._onError?.(error);
+      }
+    }, delay);
+  }
+
+  protected send(socket: WebSocket, frame: RelayFrame): void {
+    socket.send(JSON.stringify(frame));
+  }
+}
+
+/**
+ * A relay within the page, for tests and for wallets living in the same app. Messages are
+ * delivered asynchronously, like over a network, and only to subscribers other than the sender.
+ */
+export class InProcessRelay {
+  protected _subscribers = new Map<string, Set<(message: string) => void>>();
+
+  /** A transport connected to this relay, one per side */
+  transport(): RelayTransport {
+    let topic: string | null = null;
+    let handler: ((message: string) => void) | null = null;
+
+    const unsubscribe = () => {
+      if (topic && handler) this._subscribers.get(topic)?.delete(handler);
+    };
+
+    return {
+      open: async (newTopic, onMessage) => {
+        unsubscribe();
+        topic = newTopic;
+        handler = onMessage;
+        if (!this._subscribers.has(topic)) this._subscribers.set(topic, new Set());
+        this._subscribers.get(topic)!.add(handler);
+      },
+      publish: async (message) => {
+        if (!topic) throw new Error('Relay transport is not open');
+        const receivers = Array.from(this._subscribers.get(topic) || []).filter(
+          (receiver) => receiver !== handler
+        );
+        await Promise.resolve();
+        receivers.forEach((receiver) => receiver(message));
+      },
+      close: () => {
+        unsubscribe();
+        topic = null;
+        handler = null;
+      }
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { SignInMessageError } from '../WalletProviders/errors';
+
+/**
+ * Fields of a Sign-In with Aptos message, modelled on EIP-4361. The signed text is built by
+ * `createSignInMessage` and read back by `parseSignInMessage`.
+ */
+export interface SignInMessage {
+  /** Host (and port) of the site asking for the sign in, without scheme */
+  domain: string;
+  address: string;
+  /** Human readable text shown to the user, on a single line */
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  /** At least 8 alphanumeric characters, issued by the server to prevent replays */
+  nonce: string;
+  /** ISO 8601 timestamps */
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Aptos account:';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+const DOMAIN_PATTERN = /^[^\s/?#@]+$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// `Label: value` lines in the order they appear after the statement
+const FIELD_LABELS: [keyof SignInMessage, string][] = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID']
+];
+
+const REQUIRED_FIELDS: (keyof SignInMessage)[] = ['uri', 'version', 'chainId', 'nonce', 'issuedAt'];
+
+const isUri = (value: string) => {
+  try {
+    return !!new URL(value).protocol;
+  } catch (error: any) {
+    return false;
+  }
+};
+
+// A statement reading like a field line would be parsed back as that field
+const isFieldLine = (line: string) =>
+  line === 'Resources:' || FIELD_LABELS.some(([, label]) => line.startsWith(`${label}: `));
+
+const isDateTime = (value: string) =>
+  DATE_TIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+/** Throws a `SignInMessageError` naming the first field that isn't valid */
+export const validateSignInMessage = (message: SignInMessage): void => {
+  const fail = (field: string, reason: string) => {
+    throw new SignInMessageError(`Invalid ${field}: ${reason}`);
+  };
+  if (!DOMAIN_PATTERN.test(message.domain || '')) fail('domain', 'expected a host without scheme');
+  if (!ADDRESS_PATTERN.test(message.address || '')) fail('address', 'expected a 0x hex address');
+  if (message.statement !== undefined && /[\r\n]/.test(message.statement)) {
+    fail('statement', 'must be a single line');
+  }
+  if (message.statement !== undefined && isFieldLine(message.statement)) {
+    fail('statement', 'must not start like a field');
+  }
+  if (!isUri(message.uri || '')) fail('uri', 'expected an absolute URI');
+  if (message.version !== '1') fail('version', "expected '1'");
+  if (!Number.isInteger(message.chainId) || message.chainId < 0) {
+    fail('chainId', 'expected a non-negative integer');
+  }
+  if (!NONCE_PATTERN.test(message.nonce || '')) {
+    fail('nonce', 'expected at least 8 alphanumeric characters');
+  }
+  if (!isDateTime(message.issuedAt || '')) fail('issuedAt', 'expected an ISO 8601 date time');
+  if (message.expirationTime !== undefined && !isDateTime(message.expirationTime)) {
+    fail('expirationTime', 'expected an ISO 8601 date time');
+  }
+  if (message.notBefore !== undefined && !isDateTime(message.notBefore)) {
+    fail('notBefore', 'expected an ISO 8601 date time');
+  }
+  if (message.requestId !== undefined && /[\r\n]/.test(message.requestId)) {
+    fail('requestId', 'must be a single line');
+  }
+  message.resources?.forEach((resource) => {
+    if (!isUri(resource)) fail('resources', `'${resource}' is not an absolute URI`);
+  });
+};
+
+export const createSignInMessage = (message: SignInMessage): string => {
+  validateSignInMessage(message);
+
+  const lines = [`${message.domain}${HEADER_SUFFIX}`, message.address, ''];
+  if (message.statement !== undefined) lines.push(message.statement, '');
+  FIELD_LABELS.forEach(([field, label]) => {
+    if (message[field] !== undefined) lines.push(`${label}: ${message[field]}`);
+  });
+  if (message.resources?.length) {
+    lines.push('Resources:', ...message.resources.map((resource) => `- ${resource}`));
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Reads a message produced by `createSignInMessage`. Parsing is strict, any deviation from the
+ * format (unknown or out of order lines, missing fields, invalid values) throws a
+ * `SignInMessageError` so a tampered message is never half accepted.
+ */
+export const parseSignInMessage = (text: string): SignInMessage => {
+  const lines = text.split('\n');
+  let index = 0;
+  const next = () => lines[index++];
+  const fail = (reason: string): never => {
+    throw new SignInMessageError(`Malformed sign in message at line ${index}: ${reason}`);
+  };
+
+  const header = next();
+  if (header === undefined || !header.endsWith(HEADER_SUFFIX)) fail('expected the header');
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  const address = next();
+  if (address === undefined) fail('expected the address');
+  if (next() !== '') fail('expected an empty line after the address');
+
+  const message: Partial<Record<keyof SignInMessage, any>> = { domain, address };
+  if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+    message.statement = next();
+    if (next() !== '') fail('expected an empty line after the statement');
+  }
+
+  let fieldIndex = 0;
+  while (index < lines.length && lines[index] !== 'Resources:') {
+    const line = next();
+    const separator = line.indexOf(': ');
+    if (separator === -1) fail(`unexpected '${line}'`);
+    const label = line.slice(0, separator);
+    const position = FIELD_LABELS.findIndex(([, fieldLabel]) => fieldLabel === label);
+    if (position < fieldIndex) fail(`unexpected or out of order field '${label}'`);
+    fieldIndex = position + 1;
+
+    const [field] = FIELD_LABELS[position];
+    const value = line.slice(separator + 2);
+    message[field] = field === 'chainId' && /^\d+$/.test(value) ? Number(value) : value;
+  }
+
+  if (index < lines.length) {
+    next();
+    message.resources = [];
+    while (index < lines.length) {
+      const line = next();
+      if (!line.startsWith('- ')) fail(`expected a resource, got '${line}'`);
+      message.resources.push(line.slice(2));
+    }
+    if (!message.resources.length) fail('expected at least one resource');
+  }
+
+  REQUIRED_FIELDS.forEach((field) => {
+    if (message[field] === undefined) fail(`missing ${field}`);
+  });
+  validateSignInMessage(message as SignInMessage);
+  return message as SignInMessage;
+};
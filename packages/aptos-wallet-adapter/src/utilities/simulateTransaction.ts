@@ -0,0 +1,57 @@
+import {
+  AptosClient,
+  HexString,
+  MaybeHexString,
+  TransactionBuilderEd25519,
+  TxnBuilderTypes
+} from 'aptos';
+import { Event, UserTransaction, WriteSetChange } from 'aptos/src/generated';
+
+const ED25519_PUBLIC_KEY_LENGTH = 32;
+
+export interface SimulationResult {
+  success: boolean;
+  /** Why the transaction would fail, eg. `Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)` */
+  vmStatus: string;
+  gasUsed: bigint;
+  gasUnitPrice: bigint;
+  events: Event[];
+  changes: WriteSetChange[];
+  /** The node's full answer */
+  transaction: UserTransaction;
+}
+
+/**
+ * Runs `rawTxn` through the node's simulate endpoint. Simulation only needs the sender's public
+ * key, the transaction goes with an invalid signature so the wallet doesn't have to sign it.
+ */
+export async function simulateRawTransaction(
+  client: AptosClient,
+  publicKey: MaybeHexString,
+  rawTxn: TxnBuilderTypes.RawTransaction
+): Promise<SimulationResult> {
+  const publicKeyBytes = HexString.ensure(publicKey).toUint8Array();
+  if (publicKeyBytes.length !== ED25519_PUBLIC_KEY_LENGTH) {
+    throw new Error('Only transactions from ed25519 accounts can be simulated');
+  }
+  const builder = new TransactionBuilderEd25519(
+    () => new TxnBuilderTypes.Ed25519Signature(new Uint8Array(64)),
+    publicKeyBytes
+  );
+  const [transaction] = await client.submitBCSSimulation(builder.sign(rawTxn));
+  return {
+    success: transaction.success,
+    vmStatus: transaction.vm_status,
+    gasUsed: BigInt(transaction.gas_used),
+    gasUnitPrice: BigInt(transaction.gas_unit_price),
+    events: transaction.events,
+    changes: transaction.changes,
+    transaction
+  };
+}
+
+/** Gas unit price the node currently suggests */
+export async function estimateGasUnitPrice(client: AptosClient): Promise<bigint> {
+  const { gas_estimate: gasEstimate } = await client.client.transactions.estimateGasPrice();
+  return BigInt(gasEstimate);
+}
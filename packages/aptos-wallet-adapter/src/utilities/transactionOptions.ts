@@ -0,0 +1,63 @@
+import { MaybeHexString } from 'aptos';
+import { U64 } from 'aptos/src/generated';
+
+type Uint64 = U64 | number | bigint;
+
+/** Overrides for the transaction the wallet builds, anything left out is up to the wallet */
+export interface TransactionOptions {
+  max_gas_amount?: Uint64;
+  gas_unit_price?: Uint64;
+  /** Unix time (s) after which the transaction can no longer be committed */
+  expiration_timestamp_secs?: Uint64;
+  sequence_number?: Uint64;
+  /** Sends from this address instead of the connected account's, eg. after a key rotation */
+  sender?: MaybeHexString;
+}
+
+export type TransactionOption = keyof TransactionOptions;
+
+export const TRANSACTION_OPTIONS: TransactionOption[] = [
+  'max_gas_amount',
+  'gas_unit_price',
+  'expiration_timestamp_secs',
+  'sequence_number',
+  'sender'
+];
+
+/** The numeric options the way the node's JSON submission request has them */
+export type JsonTransactionOptions = { [option in Exclude<TransactionOption, 'sender'>]?: U64 };
+
+/** Options actually given, ignoring the ones explicitly set to undefined or null */
+export const requestedTransactionOptions = (options?: TransactionOptions) =>
+  TRANSACTION_OPTIONS.filter(
+    (option) => options?.[option] !== undefined && options[option] !== null
+  );
+
+/** Options given that aren't among the `supported` ones */
+export const unsupportedTransactionOptions = (
+  options: TransactionOptions | undefined,
+  supported: TransactionOption[]
+) => requestedTransactionOptions(options).filter((option) => !supported.includes(option));
+
+/**
+ * For wallets that take the options of a JSON submission request. `sender` is left out, wallets
+ * take it as a separate argument if at all.
+ */
+export const jsonTransactionOptions = (options?: TransactionOptions) => {
+  const json: JsonTransactionOptions = {};
+  requestedTransactionOptions(options).forEach((option) => {
+    if (option !== 'sender') json[option] = options?.[option]?.toString();
+  });
+  return json;
+};
+
+/** Gas options as `AptosClient.generateRawTransaction` takes them */
+export const rawTransactionArgs = (options?: TransactionOptions) => {
+  const args: { maxGasAmount?: bigint; gasUnitPrice?: bigint; expireTimestamp?: bigint } = {};
+  if (options?.max_gas_amount) args.maxGasAmount = BigInt(options.max_gas_amount);
+  if (options?.gas_unit_price) args.gasUnitPrice = BigInt(options.gas_unit_price);
+  if (options?.expiration_timestamp_secs) {
+    args.expireTimestamp = BigInt(options.expiration_timestamp_secs);
+  }
+  return args;
+};
@@ -1,4 +1,6 @@
+import { HexString, MaybeHexString } from 'aptos';
 import { TransactionPayload, TransactionPayload_EntryFunctionPayload } from 'aptos/src/generated';
+import { WalletErrorCode, WalletTimeoutError } from '../WalletProviders/errors';
 
 export const payloadV1ToV0 = (payload: TransactionPayload) => {
   const v1 = payload as TransactionPayload_EntryFunctionPayload;
@@ -9,3 +11,89 @@ export const payloadV1ToV0 = (payload: TransactionPayload) => {
     arguments: v1.arguments
   };
 };
+
+/** Whether both are the same account address, whatever their case and leading zeros */
+export const sameAddress = (address: MaybeHexString, other: MaybeHexString) =>
+  HexString.ensure(address).toShortString().toLowerCase() ===
+  HexString.ensure(other).toShortString().toLowerCase();
+
+/**
+ * Rejects with a `WalletTimeoutError` when `promise` hasn't settled within `timeout` ms.
+ * A non-positive or infinite timeout waits forever.
+ */
+export const withTimeout = <T>(
+  promise: Promise<T> | T,
+  timeout: number,
+  operation: string
+): Promise<T> => {
+  if (!(timeout > 0) || !Number.isFinite(timeout)) return Promise.resolve(promise);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new WalletTimeoutError(`${operation} timed out after ${timeout}ms`)),
+      timeout
+    );
+  });
+  return Promise.race([Promise.resolve(promise), timeoutPromise]).finally(() =>
+    clearTimeout(timer)
+  );
+};
+
+/** Message of whatever a provider threw, which is not always an `Error` (strings, response objects) */
+export const errorMessage = (error: any): string | undefined => {
+  if (typeof error === 'string') return error;
+  return error?.message || error?.response?.data?.message || error?.error;
+};
+
+const ERROR_MESSAGE_CODES: [RegExp, WalletErrorCode][] = [
+  // Only wording about the user, nodes reject transactions too, eg. "Transaction rejected: ..."
+  [
+    /user (has )?(rejected|denied|declined|cancell?ed)|(rejected|denied|declined|cancell?ed) by (the )?user/i,
+    WalletErrorCode.UserRejected
+  ],
+  [/timed? ?out/i, WalletErrorCode.Timeout],
+  [/locked/i, WalletErrorCode.Locked],
+  [
+    /network.*(mismatch|wrong|different)|(mismatch|wrong|different).*network/i,
+    WalletErrorCode.NetworkMismatch
+  ],
+  [/insufficient[ _]?balance/i, WalletErrorCode.InsufficientBalance]
+];
+
+/**
+ * Guesses the code from the wording of an error message, for wallets that only report failures
+ * as text. Wording differs between wallets and versions, eg. "User rejected the request" and
+ * "User Rejected the request", so matching is loose and case insensitive.
+ */
+export const errorCodeFromMessage = (message?: string): WalletErrorCode => {
+  const match = message && ERROR_MESSAGE_CODES.find(([pattern]) => pattern.test(message));
+  return match ? match[1] : WalletErrorCode.Internal;
+};
+
+export const SIGN_MESSAGE_PREFIX = 'APTOS';
+
+/**
+ * Text signed for a structured sign message request: the prefix, then one `key: value` line per
+ * field in a fixed order. Fields left undefined are omitted.
+ */
+export const buildFullMessage = ({
+  address,
+  application,
+  chainId,
+  message,
+  nonce
+}: {
+  address?: string;
+  application?: string;
+  chainId?: number;
+  message: string;
+  nonce: string;
+}): string => {
+  const lines = [SIGN_MESSAGE_PREFIX];
+  if (address !== undefined) lines.push(`address: ${address}`);
+  if (application !== undefined) lines.push(`application: ${application}`);
+  if (chainId !== undefined) lines.push(`chainId: ${chainId}`);
+  lines.push(`message: ${message}`, `nonce: ${nonce}`);
+  return lines.join('\n');
+};
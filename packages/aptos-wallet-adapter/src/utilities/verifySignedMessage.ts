@@ -0,0 +1,94 @@
+import { HexString, MaybeHexString } from 'aptos';
+import nacl from 'tweetnacl';
+
+export type BytesLike = MaybeHexString | Uint8Array;
+
+export interface SignedMessage {
+  /** Ed25519 key, or multi-ed25519 key as `key_1 | ... | key_n | threshold` */
+  publicKey: BytesLike;
+  /** The text that was signed, eg. `SignMessageResponse.fullMessage` */
+  fullMessage: string | Uint8Array;
+  /** Ed25519 signature, or multi-ed25519 signature as `sig_1 | ... | sig_k | bitmap` */
+  signature: BytesLike;
+}
+
+const PUBLIC_KEY_LENGTH = nacl.sign.publicKeyLength;
+const SIGNATURE_LENGTH = nacl.sign.signatureLength;
+const BITMAP_LENGTH = 4;
+
+export const toBytes = (value: BytesLike): Uint8Array =>
+  value instanceof Uint8Array ? value : HexString.ensure(value).toUint8Array();
+
+const equalBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+/**
+ * Some wallets return the signed message (`signature | message`) instead of the detached
+ * signature, strip the message so both forms verify the same way.
+ */
+const detachSignature = (signature: Uint8Array, message: Uint8Array): Uint8Array =>
+  signature.length === SIGNATURE_LENGTH + message.length &&
+  equalBytes(signature.subarray(SIGNATURE_LENGTH), message)
+    ? signature.subarray(0, SIGNATURE_LENGTH)
+    : signature;
+
+const verifyMultiEd25519 = (
+  message: Uint8Array,
+  signature: Uint8Array,
+  publicKey: Uint8Array
+): boolean => {
+  const keyCount = Math.floor(publicKey.length / PUBLIC_KEY_LENGTH);
+  const threshold = publicKey[publicKey.length - 1];
+  if (publicKey.length !== keyCount * PUBLIC_KEY_LENGTH + 1 || !threshold) return false;
+
+  const signatureCount = (signature.length - BITMAP_LENGTH) / SIGNATURE_LENGTH;
+  if (!Number.isInteger(signatureCount) || signatureCount < threshold) return false;
+  const bitmap = signature.subarray(signature.length - BITMAP_LENGTH);
+
+  // The n-th bit of the bitmap, read from the left, marks that key n signed. Signatures are in
+  // the same order as the bits.
+  let signatureIndex = 0;
+  for (let keyIndex = 0; keyIndex < BITMAP_LENGTH * 8; keyIndex += 1) {
+    if (Math.floor(bitmap[Math.floor(keyIndex / 8)] / 2 ** (7 - (keyIndex % 8))) % 2 === 1) {
+      if (keyIndex >= keyCount || signatureIndex >= signatureCount) return false;
+      const valid = nacl.sign.detached.verify(
+        message,
+        signature.subarray(
+          signatureIndex * SIGNATURE_LENGTH,
+          (signatureIndex + 1) * SIGNATURE_LENGTH
+        ),
+        publicKey.subarray(keyIndex * PUBLIC_KEY_LENGTH, (keyIndex + 1) * PUBLIC_KEY_LENGTH)
+      );
+      if (!valid) return false;
+      signatureIndex += 1;
+    }
+  }
+  return signatureIndex === signatureCount;
+};
+
+/**
+ * Checks that `signature` over `fullMessage` was made by `publicKey`. Accepts hex strings with or
+ * without `0x`, `HexString`s and raw bytes. Malformed input verifies as false instead of throwing.
+ */
+export const verifySignedMessage = ({
+  publicKey,
+  fullMessage,
+  signature
+}: SignedMessage): boolean => {
+  try {
+    const message =
+      typeof fullMessage === 'string' ? new TextEncoder().encode(fullMessage) : fullMessage;
+    const keyBytes = toBytes(publicKey);
+    const signatureBytes = detachSignature(toBytes(signature), message);
+
+    if (keyBytes.length === PUBLIC_KEY_LENGTH) {
+      return (
+        signatureBytes.length === SIGNATURE_LENGTH &&
+        nacl.sign.detached.verify(message, signatureBytes, keyBytes)
+      );
+    }
+    return verifyMultiEd25519(message, signatureBytes, keyBytes);
+  } catch (error: any) {
+    return false;
+  }
+};
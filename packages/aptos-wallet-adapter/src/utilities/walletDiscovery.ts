@@ -0,0 +1,119 @@
+import { DEFAULT_DISCOVERY_TIMEOUT } from '../config/aptosConstants';
+
+/** Window event a wallet dispatches once its API is injected, `detail` being its registration */
+export const WALLET_REGISTER_EVENT = 'aptos#registerWallet';
+
+/** Window event adapters dispatch when they start looking, wallets answer by registering again */
+export const WALLET_REQUEST_EVENT = 'aptos#requestWallets';
+
+export interface WalletRegistration {
+  /** Name of the wallet, eg. `Petra` */
+  name: string;
+}
+
+const noop = (): void => undefined;
+
+/** Fallback polling for wallets that don't register, each check waits for the browser to idle */
+const POLL_INTERVAL = 500;
+
+export interface WalletDiscoveryOptions {
+  /** How long (ms) to keep looking, `onTimeout` is called when the wallet wasn't found by then */
+  timeout?: number;
+  onTimeout?: () => void;
+}
+
+const whenIdle = (callback: () => void): (() => void) => {
+  if (typeof window.requestIdleCallback === 'function') {
+    const handle = window.requestIdleCallback(callback, { timeout: POLL_INTERVAL });
+    return () => window.cancelIdleCallback(handle);
+  }
+  const timer = setTimeout(callback, 0);
+  return () => clearTimeout(timer);
+};
+
+/**
+ * Announces a wallet to the adapters looking for it, now and whenever one asks. For wallets that
+ * want to be discovered without being polled for. Returns a function that stops answering.
+ */
+export function registerWallet(registration: WalletRegistration): () => void {
+  if (typeof window === 'undefined') return noop;
+
+  const register = () =>
+    window.dispatchEvent(new CustomEvent(WALLET_REGISTER_EVENT, { detail: registration }));
+  window.addEventListener(WALLET_REQUEST_EVENT, register);
+  register();
+  return () => window.removeEventListener(WALLET_REQUEST_EVENT, register);
+}
+
+/**
+ * Looks for a wallet until `detect` finds it or the timeout passes, checking whenever a wallet
+ * registers, once the page has loaded and, for wallets that never register, while the browser is
+ * idle. Returns a function that stops looking, eg. when the adapter is no longer used.
+ */
+export function discoverWallet(
+  detect: () => boolean,
+  { timeout = DEFAULT_DISCOVERY_TIMEOUT, onTimeout }: WalletDiscoveryOptions = {}
+): () => void {
+  // Early return when server-side rendering
+  if (typeof window === 'undefined' || typeof document === 'undefined') return noop;
+
+  let stopped = false;
+  const disposers: (() => void)[] = [];
+  const stop = () => {
+    stopped = true;
+    disposers.splice(0).forEach((dispose) => dispose());
+  };
+
+  function detectAndStop() {
+    if (!stopped && detect()) stop();
+  }
+
+  // Strategy #1: Detect whenever a wallet registers itself.
+  window.addEventListener(WALLET_REGISTER_EVENT, detectAndStop);
+  disposers.push(() => window.removeEventListener(WALLET_REGISTER_EVENT, detectAndStop));
+
+  // Strategy #2: Detect as soon as the DOM becomes 'ready'/'interactive'.
+  if (
+    // Implies that `DOMContentLoaded` has not yet fired.
+    document.readyState === 'loading'
+  ) {
+    document.addEventListener('DOMContentLoaded', detectAndStop, { once: true });
+    disposers.push(() => document.removeEventListener('DOMContentLoaded', detectAndStop));
+  }
+
+  // Strategy #3: Detect after the `window` has fully loaded.
+  if (
+    // If the `complete` state has been reached, we're too late.
+    document.readyState !== 'complete'
+  ) {
+    window.addEventListener('load', detectAndStop, { once: true });
+    disposers.push(() => window.removeEventListener('load', detectAndStop));
+  }
+
+  // Strategy #4: Poll while the browser is idle, for wallets that don't register.
+  let cancelPoll = noop;
+  const poll = () => {
+    const timer = setTimeout(() => {
+      cancelPoll = whenIdle(() => {
+        detectAndStop();
+        if (!stopped) poll();
+      });
+    }, POLL_INTERVAL);
+    cancelPoll = () => clearTimeout(timer);
+  };
+  poll();
+  disposers.push(() => cancelPoll());
+
+  // Give up at the deadline, the wallet isn't installed.
+  const deadline = setTimeout(() => {
+    stop();
+    onTimeout?.();
+  }, timeout);
+  disposers.push(() => clearTimeout(deadline));
+
+  // Strategy #5: Ask registered wallets to register again, then detect synchronously, now.
+  window.dispatchEvent(new Event(WALLET_REQUEST_EVENT));
+  detectAndStop();
+
+  return stop;
+}
@@ -0,0 +1,137 @@
+import { WalletAdapterNetwork } from '../src/WalletAdapters/BaseAdapter';
+import { AptosWalletAdapter } from '../src/WalletAdapters/AptosWallet';
+import { WalletErrorCode, WalletTimeoutError } from '../src/WalletProviders/errors';
+
+declare const window: Window & { aptos?: Record<string, jest.Mock> };
+
+const ACCOUNT = { address: '0x1', publicKey: '0x1234' };
+
+describe('AptosWalletAdapter', () => {
+  let aptos: Record<string, jest.Mock>;
+  let listeners: Record<string, (value: any) => unknown>;
+
+  beforeEach(() => {
+    listeners = {};
+    aptos = {
+      isConnected: jest.fn().mockResolvedValue(false),
+      connect: jest.fn().mockResolvedValue(ACCOUNT),
+      signTransaction: jest.fn().mockResolvedValue(new Uint8Array([1])),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      network: jest.fn().mockResolvedValue('Testnet'),
+      onNetworkChange: jest.fn(async (listener) => {
+        listeners.onNetworkChange = listener;
+      }),
+      onAccountChange: jest.fn(async (listener) => {
+        listeners.onAccountChange = listener;
+      })
+    };
+    window.aptos = aptos;
+  });
+
+  afterEach(() => {
+    delete window.aptos;
+  });
+
+  describe('network', () => {
+    it('starts out on the configured network', () => {
+      expect(new AptosWalletAdapter().network).toBe(WalletAdapterNetwork.Devnet);
+      expect(new AptosWalletAdapter({ network: WalletAdapterNetwork.Mainnet }).network).toBe(
+        WalletAdapterNetwork.Mainnet
+      );
+    });
+
+    it('takes the network Petra is on when connecting', async () => {
+      const adapter = new AptosWalletAdapter();
+      await adapter.connect();
+
+      expect(adapter.network).toBe(WalletAdapterNetwork.Testnet);
+      expect(adapter.supports('networkInfo')).toBe(true);
+    });
+
+    it('reports switches to another network', async () => {
+      const adapter = new AptosWalletAdapter();
+      const onNetworkChange = jest.fn();
+      adapter.on('networkChange', onNetworkChange);
+      await adapter.connect();
+
+      listeners.onNetworkChange({ networkName: 'Testnet' });
+      listeners.onNetworkChange({ networkName: 'Localhost' });
+      listeners.onNetworkChange({ networkName: 'Mainnet' });
+
+      expect(onNetworkChange).toHaveBeenCalledTimes(1);
+      expect(onNetworkChange).toHaveBeenCalledWith(WalletAdapterNetwork.Mainnet);
+      expect(adapter.network).toBe(WalletAdapterNetwork.Mainnet);
+    });
+  });
+
+  describe('account', () => {
+    it('reports switches to another account', async () => {
+      const adapter = new AptosWalletAdapter();
+      const onAccountChange = jest.fn();
+      adapter.on('accountChange', onAccountChange);
+      await adapter.connect();
+
+      const other = { address: '0x2', publicKey: '0x2345' };
+      await listeners.onAccountChange(other);
+
+      expect(onAccountChange).toHaveBeenCalledTimes(1);
+      expect(onAccountChange).toHaveBeenCalledWith({ ...other, authKey: null });
+      expect(adapter.publicAccount.address).toBe('0x2');
+    });
+
+    it('disconnects when the dApp lost access to the account', async () => {
+      const adapter = new AptosWalletAdapter();
+      const onDisconnect = jest.fn();
+      adapter.on('disconnect', onDisconnect);
+      await adapter.connect();
+
+      await listeners.onAccountChange({});
+
+      expect(adapter.connected).toBe(false);
+      expect(onDisconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('timeout', () => {
+    const never = () => new Promise(() => undefined);
+
+    it('gives up connecting when Petra never answers', async () => {
+      aptos.connect.mockImplementation(never);
+      const adapter = new AptosWalletAdapter();
+      adapter.on('error', () => undefined);
+
+      const connecting = adapter.connect(50);
+      expect(adapter.connecting).toBe(true);
+      const error = await connecting.catch((e) => e);
+
+      expect(error).toBeInstanceOf(WalletTimeoutError);
+      expect(error.code).toBe(WalletErrorCode.Timeout);
+      expect(adapter.connecting).toBe(false);
+      expect(adapter.connected).toBe(false);
+    });
+
+    it('gives up signing when Petra never answers', async () => {
+      aptos.signTransaction.mockImplementation(never);
+      const adapter = new AptosWalletAdapter();
+      adapter.on('error', () => undefined);
+      await adapter.connect();
+
+      const error = await adapter
+        .signTransaction(
+          {
+            type: 'entry_function_payload',
+            function: '0x1::coin::transfer',
+            type_arguments: ['0x1::aptos_coin::AptosCoin'],
+            arguments: ['0x2', '100']
+          },
+          undefined,
+          50
+        )
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(WalletTimeoutError);
+      expect(error.code).toBe(WalletErrorCode.Timeout);
+      expect(adapter.connected).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { WalletAdapterNetwork } from '../src/WalletAdapters/BaseAdapter';
+import { FewchaWalletAdapter } from '../src/WalletAdapters/FewchaWallet';
+import { WalletErrorCode, WalletUserRejectedError } from '../src/WalletProviders/errors';
+
+declare const window: Window & { fewcha?: Record<string, jest.Mock> };
+
+const ACCOUNT = { address: '0x1', publicKey: '0x1234' };
+
+const ok = <T>(data: T) => ({ data, method: 'fewcha', status: 200 });
+
+const PAYLOAD = {
+  type: 'entry_function_payload',
+  function: '0x1::coin::transfer',
+  type_arguments: ['0x1::aptos_coin::AptosCoin'],
+  arguments: ['0x2', BigInt(100)]
+};
+
+describe('FewchaWalletAdapter', () => {
+  let fewcha: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    fewcha = {
+      isConnected: jest.fn().mockResolvedValue(ok(false)),
+      connect: jest.fn().mockResolvedValue(ok(ACCOUNT)),
+      account: jest.fn().mockResolvedValue(ok(ACCOUNT)),
+      disconnect: jest.fn().mockResolvedValue(ok(true)),
+      getNetwork: jest.fn().mockResolvedValue(ok('Testnet')),
+      generateTransaction: jest.fn().mockResolvedValue(ok(new Uint8Array([1]))),
+      signTransaction: jest.fn().mockResolvedValue(ok(new Uint8Array([2]))),
+      signAndSubmitTransaction: jest.fn().mockResolvedValue(ok('0xabc'))
+    };
+    window.fewcha = fewcha;
+  });
+
+  afterEach(() => {
+    delete window.fewcha;
+  });
+
+  it('connects on the network Fewcha is on', async () => {
+    const adapter = new FewchaWalletAdapter();
+    const onConnect = jest.fn();
+    adapter.on('connect', onConnect);
+
+    await adapter.connect();
+
+    expect(adapter.connected).toBe(true);
+    expect(adapter.publicAccount).toEqual({ ...ACCOUNT, authKey: null });
+    expect(adapter.network).toBe(WalletAdapterNetwork.Testnet);
+    expect(onConnect).toHaveBeenCalledWith(ACCOUNT.publicKey);
+  });
+
+  it("doesn't claim to report network switches", () => {
+    expect(new FewchaWalletAdapter().supports('networkInfo')).toBe(false);
+  });
+
+  it('stays disconnected when the user declines', async () => {
+    fewcha.connect!.mockResolvedValue({ data: null, method: 'connect', status: 401 });
+    const adapter = new FewchaWalletAdapter();
+    adapter.on('error', () => undefined);
+
+    await expect(adapter.connect()).rejects.toBeInstanceOf(WalletUserRejectedError);
+    expect(adapter.connected).toBe(false);
+    expect(adapter.network).toBe(WalletAdapterNetwork.Devnet);
+  });
+
+  it('signs the transaction Fewcha generated with numbers for integers', async () => {
+    const adapter = new FewchaWalletAdapter();
+    await adapter.connect();
+
+    await expect(adapter.signTransaction(PAYLOAD)).resolves.toEqual(new Uint8Array([2]));
+    expect(fewcha.generateTransaction).toHaveBeenCalledWith(
+      { ...PAYLOAD, arguments: ['0x2', 100] },
+      {}
+    );
+    expect(fewcha.signTransaction).toHaveBeenCalledWith(new Uint8Array([1]));
+  });
+
+  it('times out when Fewcha never generates the transaction', async () => {
+    fewcha.generateTransaction!.mockReturnValue(new Promise(() => undefined));
+    const adapter = new FewchaWalletAdapter();
+    adapter.on('error', () => undefined);
+    await adapter.connect();
+
+    await expect(adapter.signAndSubmitTransaction(PAYLOAD, undefined, 50)).rejects.toMatchObject({
+      code: WalletErrorCode.Timeout
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { HippoWalletAdapter, HippoWebMessage } from '../src/WalletAdapters/HippoWallet';
+import {
+  WalletErrorCode,
+  WalletSignTransactionError,
+  WalletTimeoutError,
+  WalletUserRejectedError,
+  WalletWindowBlockedError,
+  WalletWindowClosedError
+} from '../src/WalletProviders/errors';
+
+const WALLET_URL = 'https://wallet.example.com/app';
+const WALLET_ORIGIN = 'https://wallet.example.com';
+
+const ACCOUNT_MESSAGE = {
+  method: 'account' as const,
+  address: { hexString: '0x1' },
+  publicKey: { hexString: '0x1234' },
+  authKey: { hexString: '0x5678' }
+};
+
+const TRANSFER = {
+  type: 'entry_function_payload',
+  function: '0x1::coin::transfer',
+  type_arguments: ['0x1::aptos_coin::AptosCoin'],
+  arguments: ['0x2', '717']
+};
+
+interface FakePopup {
+  closed: boolean;
+  request: { id: number; method: string; payload?: any };
+}
+
+describe('HippoWalletAdapter', () => {
+  let popups: FakePopup[];
+  let open: jest.SpyInstance;
+
+  const post = (data: HippoWebMessage, origin = WALLET_ORIGIN) =>
+    window.dispatchEvent(new MessageEvent('message', { data, origin }));
+
+  const respond = (popup: FakePopup, data: Record<string, unknown>) =>
+    post({ ...data, id: popup.request.id } as HippoWebMessage);
+
+  // Lets the adapter open the popup for a request that was just started
+  const flush = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+  const connect = async (adapter: HippoWalletAdapter) => {
+    const connecting = adapter.connect();
+    await flush();
+    respond(popups[popups.length - 1], ACCOUNT_MESSAGE);
+    await connecting;
+  };
+
+  beforeEach(() => {
+    popups = [];
+    open = jest.spyOn(window, 'open').mockImplementation((url) => {
+      const query = new URL(url as string).searchParams;
+      const popup = { closed: false, request: JSON.parse(query.get('request')!) };
+      popups.push(popup);
+      return popup as unknown as Window;
+    });
+  });
+
+  afterEach(() => {
+    open.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('opens the configured wallet url and connects with the returned account', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL });
+    const onConnect = jest.fn();
+    adapter.on('connect', onConnect);
+
+    await connect(adapter);
+
+    expect(open.mock.calls[0][0]).toMatch(new RegExp(`^${WALLET_URL}\\?`));
+    expect(popups[0].request.method).toBe('connect');
+    expect(adapter.connected).toBe(true);
+    expect(adapter.publicAccount).toEqual({
+      address: '0x1',
+      publicKey: '0x1234',
+      authKey: '0x5678'
+    });
+    expect(onConnect).toHaveBeenCalledWith('0x1234');
+  });
+
+  it('ignores messages from other origins', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL, timeout: 0 });
+
+    const connecting = adapter.connect();
+    await flush();
+    post({ ...ACCOUNT_MESSAGE, id: popups[0].request.id }, 'https://evil.example.com');
+    await flush();
+    expect(adapter.connected).toBe(false);
+
+    respond(popups[0], ACCOUNT_MESSAGE);
+    await connecting;
+    expect(adapter.connected).toBe(true);
+  });
+
+  it('resolves concurrent requests by id', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL });
+    await connect(adapter);
+
+    const first = adapter.signMessage('first');
+    const second = adapter.signAndSubmitTransaction(TRANSFER);
+    await flush();
+    const [, firstPopup, secondPopup] = popups;
+    expect(firstPopup.request.id).not.toBe(secondPopup.request.id);
+    expect(secondPopup.request.payload).toEqual(TRANSFER);
+
+    respond(secondPopup, { method: 'success', detail: { hash: '0xabc' } });
+    respond(firstPopup, { method: 'success', detail: { signature: '0xdef' } });
+
+    await expect(first).resolves.toBe('0xdef');
+    await expect(second).resolves.toEqual({ hash: '0xabc' });
+  });
+
+  it('returns the signed transaction as bytes', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL });
+    await connect(adapter);
+    expect(adapter.supports('signTransaction')).toBe(true);
+
+    const fromArray = adapter.signTransaction(TRANSFER);
+    const fromHex = adapter.signTransaction(TRANSFER);
+    await flush();
+    respond(popups[1], { method: 'success', detail: { signedTransaction: [1, 2, 3] } });
+    respond(popups[2], { method: 'success', detail: { signedTransaction: '0x010203' } });
+
+    await expect(fromArray).resolves.toEqual(new Uint8Array([1, 2, 3]));
+    await expect(fromHex).resolves.toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('rejects failed requests with the error of the method', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL });
+    const onError = jest.fn();
+    adapter.on('error', onError);
+    await connect(adapter);
+
+    const signing = adapter.signTransaction(TRANSFER);
+    await flush();
+    respond(popups[1], { method: 'fail', error: 'Simulation failed' });
+
+    await expect(signing).rejects.toThrow(WalletSignTransactionError);
+    expect(onError.mock.calls[0][0].message).toBe('Simulation failed');
+  });
+
+  it('rejects declined requests with WalletUserRejectedError', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL });
+    await connect(adapter);
+
+    const signing = adapter.signAndSubmitTransaction(TRANSFER);
+    await flush();
+    respond(popups[1], { method: 'fail', error: 'User rejected the request' });
+
+    const error = await signing.catch((e) => e);
+    expect(error).toBeInstanceOf(WalletUserRejectedError);
+    expect(error).toMatchObject({
+      code: WalletErrorCode.UserRejected,
+      walletName: 'Hippo Web',
+      operation: 'signAndSubmitTransaction'
+    });
+  });
+
+  it('rejects when the popup is blocked', async () => {
+    open.mockReturnValue(null);
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL });
+
+    await expect(adapter.connect()).rejects.toThrow(WalletWindowBlockedError);
+    expect(adapter.connected).toBe(false);
+  });
+
+  it('rejects when the popup is closed without answering', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL });
+    await connect(adapter);
+    jest.useFakeTimers();
+
+    const signing = adapter.signMessage('hello');
+    await flush();
+    popups[1].closed = true;
+    jest.advanceTimersByTime(1000);
+
+    await expect(signing).rejects.toThrow(WalletWindowClosedError);
+  });
+
+  it('drops late responses once a request timed out', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL, timeout: 1000 });
+    await connect(adapter);
+    jest.useFakeTimers();
+
+    const signing = adapter.signMessage('hello');
+    await flush();
+    jest.advanceTimersByTime(1000);
+    await expect(signing).rejects.toThrow(WalletTimeoutError);
+
+    const onError = jest.fn();
+    adapter.on('error', onError);
+    respond(popups[1], { method: 'success', detail: { signature: '0xdef' } });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('disconnects when the wallet says so', async () => {
+    const adapter = new HippoWalletAdapter({ provider: WALLET_URL });
+    const onDisconnect = jest.fn();
+    adapter.on('disconnect', onDisconnect);
+    await connect(adapter);
+
+    post({ method: 'disconnected' });
+
+    expect(adapter.connected).toBe(false);
+    expect(onDisconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { WalletAdapterNetwork } from '../src/WalletAdapters/BaseAdapter';
+import { MartianWalletAdapter } from '../src/WalletAdapters/MartianWallet';
+import { PontemWalletAdapter } from '../src/WalletAdapters/PontemWallet';
+import { WalletConnectionError, WalletErrorCode } from '../src/WalletProviders/errors';
+
+const ACCOUNT = { address: '0x1', publicKey: '0x1234', authKey: '0x5678' };
+
+describe('InjectedWalletAdapter', () => {
+  let martian: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    martian = {
+      isConnected: jest.fn().mockResolvedValue(false),
+      connect: jest.fn().mockResolvedValue({ ...ACCOUNT, method: 'connected', status: 200 }),
+      account: jest.fn().mockResolvedValue({ ...ACCOUNT, isConnected: true }),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      network: jest.fn().mockResolvedValue('Testnet'),
+      onNetworkChange: jest.fn().mockResolvedValue(undefined),
+      onAccountChange: jest.fn().mockResolvedValue(undefined)
+    };
+    Object.assign(window, { martian });
+  });
+
+  afterEach(() => {
+    delete (window as any).martian;
+    delete (window as any).pontem;
+  });
+
+  it('connects once the network is known and the wallet is listened to', async () => {
+    const adapter = new MartianWalletAdapter();
+    const onConnect = jest.fn();
+    adapter.on('connect', onConnect);
+
+    await adapter.connect();
+
+    expect(adapter.connected).toBe(true);
+    expect(adapter.publicAccount).toEqual(ACCOUNT);
+    expect(adapter.network).toBe(WalletAdapterNetwork.Testnet);
+    expect(martian.onAccountChange).toHaveBeenCalledTimes(1);
+    expect(onConnect).toHaveBeenCalledWith(ACCOUNT.publicKey);
+  });
+
+  it('only reports account changes to another address', async () => {
+    const adapter = new MartianWalletAdapter();
+    const onAccountChange = jest.fn();
+    adapter.on('accountChange', onAccountChange);
+    await adapter.connect();
+    const [listener] = martian.onAccountChange!.mock.calls[0];
+
+    martian.account!.mockResolvedValue({ ...ACCOUNT, address: '0x' + '0'.repeat(63) + '1' });
+    await listener('0x' + '0'.repeat(63) + '1');
+    expect(onAccountChange).not.toHaveBeenCalled();
+
+    const other = { address: '0x2', publicKey: '0x2345', authKey: '0x6789' };
+    martian.account!.mockResolvedValue({ ...other, isConnected: true });
+    await listener('0x2');
+    expect(onAccountChange).toHaveBeenCalledWith(other);
+  });
+
+  it.each(['network', 'onAccountChange'])('stays disconnected when %s fails', async (method) => {
+    martian[method]!.mockRejectedValue(new Error('Extension context invalidated'));
+    const adapter = new MartianWalletAdapter();
+    const onConnect = jest.fn();
+    adapter.on('connect', onConnect);
+    adapter.on('error', () => undefined);
+
+    await expect(adapter.connect()).rejects.toBeInstanceOf(WalletConnectionError);
+    expect(adapter.connected).toBe(false);
+    expect(adapter.publicAccount.address).toBeNull();
+    expect(adapter.network).toBe(WalletAdapterNetwork.Devnet);
+    expect(onConnect).not.toHaveBeenCalled();
+  });
+
+  it('times out when the wallet never tells its network', async () => {
+    martian.network!.mockReturnValue(new Promise(() => undefined));
+    const adapter = new MartianWalletAdapter();
+    adapter.on('error', () => undefined);
+
+    await expect(adapter.connect(50)).rejects.toMatchObject({ code: WalletErrorCode.Timeout });
+    expect(adapter.connecting).toBe(false);
+    expect(adapter.connected).toBe(false);
+  });
+
+  it('forwards the callbacks of the current session only', async () => {
+    const listeners: Record<string, ((value: any) => void)[]> = {
+      onChangeNetwork: [],
+      onChangeAccount: []
+    };
+    const pontem = {
+      isConnected: jest.fn().mockResolvedValue(false),
+      connect: jest.fn().mockResolvedValue({ ...ACCOUNT, method: 'connected', status: 200 }),
+      account: jest.fn().mockResolvedValue(ACCOUNT.address),
+      publicKey: jest.fn().mockResolvedValue(ACCOUNT.publicKey),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      network: jest.fn().mockResolvedValue({ name: 'Testnet' }),
+      onChangeNetwork: jest.fn(async (listener) => {
+        listeners.onChangeNetwork.push(listener);
+      }),
+      onChangeAccount: jest.fn(async (listener) => {
+        listeners.onChangeAccount.push(listener);
+      })
+    };
+    Object.assign(window, { pontem });
+    const adapter = new PontemWalletAdapter();
+    const onNetworkChange = jest.fn();
+    const onAccountChange = jest.fn();
+    adapter.on('networkChange', onNetworkChange);
+    adapter.on('accountChange', onAccountChange);
+
+    await adapter.connect();
+    await adapter.disconnect();
+    await adapter.connect();
+    expect(listeners.onChangeNetwork).toHaveLength(2);
+    const [[stale, current], [staleAccount, currentAccount]] = [
+      listeners.onChangeNetwork,
+      listeners.onChangeAccount
+    ];
+
+    stale({ name: 'Mainnet' });
+    await staleAccount('0x2');
+    expect(onNetworkChange).not.toHaveBeenCalled();
+    expect(onAccountChange).not.toHaveBeenCalled();
+
+    current({ name: 'Mainnet' });
+    await currentAccount('0x2');
+    expect(onNetworkChange).toHaveBeenCalledTimes(1);
+    expect(onNetworkChange).toHaveBeenCalledWith(WalletAdapterNetwork.Mainnet);
+    expect(onAccountChange).toHaveBeenCalledTimes(1);
+  });
+});
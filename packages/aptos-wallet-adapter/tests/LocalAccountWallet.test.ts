@@ -0,0 +1,124 @@
+import { AptosAccount, HexString } from 'aptos';
+import { TextEncoder } from 'util';
+import { LocalAccountWalletAdapter } from '../src/WalletAdapters/LocalAccountWallet';
+import {
+  WalletAccountError,
+  WalletErrorCode,
+  WalletSignMessageError,
+  WalletTimeoutError,
+  WalletUserRejectedError
+} from '../src/WalletProviders/errors';
+
+// jsdom doesn't provide it, and nacl only takes Uint8Arrays of the test's own realm
+Object.assign(globalThis, {
+  TextEncoder: class {
+    encode = (text: string) => Uint8Array.from(new TextEncoder().encode(text));
+  }
+});
+
+const account = (byte: string) =>
+  new AptosAccount(new HexString('0x' + byte.repeat(32)).toUint8Array());
+
+describe('LocalAccountWalletAdapter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Settles the promise callbacks queued so far, timers only move when a test advances them
+  const flush = async () => {
+    for (let i = 0; i < 10; i += 1) await Promise.resolve();
+  };
+
+  it('holds every operation back by the injected latency', async () => {
+    const adapter = new LocalAccountWalletAdapter({ faults: { latency: 500 } });
+    let connected = false;
+    const connecting = adapter.connect().then(() => {
+      connected = true;
+    });
+
+    jest.advanceTimersByTime(499);
+    await flush();
+    expect(connected).toBe(false);
+    expect(adapter.connecting).toBe(true);
+
+    jest.advanceTimersByTime(1);
+    await connecting;
+    expect(adapter.connected).toBe(true);
+
+    const signing = adapter.signMessage('hello');
+    jest.advanceTimersByTime(500);
+    await expect(signing).resolves.toMatch(/^0x[0-9a-f]{128}$/);
+  });
+
+  it('times out when the latency outlasts the timeout', async () => {
+    const adapter = new LocalAccountWalletAdapter({ faults: { latency: 5000 }, timeout: 1000 });
+    adapter.on('error', () => undefined);
+
+    const connecting = adapter.connect().catch((e) => e);
+    jest.advanceTimersByTime(1000);
+    const error = await connecting;
+    expect(error).toBeInstanceOf(WalletTimeoutError);
+    expect(error).toMatchObject({ code: WalletErrorCode.Timeout, operation: 'connect' });
+    expect(adapter.connected).toBe(false);
+  });
+
+  it('declines the operations listed in reject', async () => {
+    const adapter = new LocalAccountWalletAdapter({ faults: { reject: ['connect'] } });
+    const onError = jest.fn();
+    adapter.on('error', onError);
+
+    const error = await adapter.connect().catch((e) => e);
+    expect(error).toBeInstanceOf(WalletUserRejectedError);
+    expect(error).toMatchObject({ code: WalletErrorCode.UserRejected, operation: 'connect' });
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(adapter.connected).toBe(false);
+
+    adapter.setFaults({});
+    await adapter.connect();
+    expect(adapter.connected).toBe(true);
+  });
+
+  it('fails the operations listed in fail with a wallet error', async () => {
+    const adapter = new LocalAccountWalletAdapter({ faults: { fail: ['signMessage'] } });
+    adapter.on('error', () => undefined);
+    await adapter.connect();
+
+    const error = await adapter.signMessage('hello').catch((e) => e);
+    expect(error).toBeInstanceOf(WalletSignMessageError);
+    expect(error).toMatchObject({
+      message: 'Simulated signMessage failure',
+      code: WalletErrorCode.Internal,
+      walletName: 'Local Account'
+    });
+  });
+
+  it('lists its accounts and switches between them', async () => {
+    const [first, second] = [account('11'), account('22')];
+    const adapter = new LocalAccountWalletAdapter({
+      privateKey: first.signingKey.secretKey.slice(0, 32),
+      accounts: [second]
+    });
+    const onAccountChange = jest.fn();
+    adapter.on('accountChange', onAccountChange);
+    adapter.on('error', () => undefined);
+    await adapter.connect();
+
+    expect(adapter.supports('multiAccount')).toBe(true);
+    await expect(adapter.getAccounts()).resolves.toEqual([
+      expect.objectContaining({ address: first.address().hex() }),
+      expect.objectContaining({ address: second.address().hex() })
+    ]);
+
+    await adapter.switchAccount(second.address().hex().toUpperCase().replace('0X', '0x'));
+    expect(adapter.publicAccount.address).toBe(second.address().hex());
+    expect(onAccountChange).toHaveBeenCalledWith(adapter.publicAccount);
+
+    await expect(adapter.switchAccount('0x3')).rejects.toBeInstanceOf(WalletAccountError);
+    expect(adapter.publicAccount.address).toBe(second.address().hex());
+    expect(onAccountChange).toHaveBeenCalledTimes(1);
+  });
+});
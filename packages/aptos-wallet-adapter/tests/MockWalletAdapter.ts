@@ -0,0 +1,152 @@
+import { HexEncodedBytes, TransactionPayload } from 'aptos/src/generated';
+import {
+  AccountKeys,
+  Address,
+  BaseWalletAdapter,
+  WalletAdapterNetwork,
+  WalletFeatures,
+  WalletName,
+  WalletReadyState
+} from '../src/WalletAdapters/BaseAdapter';
+import { WalletAccountError, WalletConnectionError } from '../src/WalletProviders/errors';
+
+export const MOCK_ACCOUNT: AccountKeys = {
+  address: '0x1',
+  publicKey: '0x1234',
+  authKey: '0x5678'
+};
+
+/**
+ * Scriptable adapter for provider tests. Tests flip `readyState`, queue connect failures and emit
+ * wallet-side events directly, without any injected window API.
+ */
+export class MockWalletAdapter extends BaseWalletAdapter {
+  name: WalletName;
+
+  url = 'https://example.com/wallet';
+
+  icon = 'https://example.com/wallet.png';
+
+  connectError: Error | null = null;
+
+  connectCalls: (number | undefined)[] = [];
+
+  disconnectCalls = 0;
+
+  /** Features the wallet lacks or adds on top of the defaults */
+  featureOverrides: Partial<WalletFeatures> = {};
+
+  protected _readyState: WalletReadyState;
+
+  protected _network = WalletAdapterNetwork.Devnet;
+
+  protected _account: AccountKeys | null = null;
+
+  protected _connecting = false;
+
+  constructor(name: string, readyState = WalletReadyState.Installed) {
+    super();
+    this.name = name as WalletName;
+    this._readyState = readyState;
+  }
+
+  get publicAccount(): AccountKeys {
+    return this._account || { address: null, publicKey: null, authKey: null };
+  }
+
+  get connecting(): boolean {
+    return this._connecting;
+  }
+
+  get connected(): boolean {
+    return !!this._account;
+  }
+
+  get features(): WalletFeatures {
+    return { ...super.features, ...this.featureOverrides };
+  }
+
+  get readyState(): WalletReadyState {
+    return this._readyState;
+  }
+
+  get network(): WalletAdapterNetwork {
+    return this._network;
+  }
+
+  setReadyState(readyState: WalletReadyState): void {
+    this._readyState = readyState;
+    this.emit('readyStateChange', readyState);
+  }
+
+  changeNetwork(network: WalletAdapterNetwork): void {
+    this._network = network;
+    this.emit('networkChange', network);
+  }
+
+  changeAccount(account: AccountKeys): void {
+    this._account = account;
+    this.emit('accountChange', account);
+  }
+
+  async connect(timeout?: number): Promise<void> {
+    this.connectCalls.push(timeout);
+    if (this.connectError) {
+      const error = new WalletConnectionError(this.connectError.message, this.connectError);
+      this.emit('error', error);
+      throw error;
+    }
+    this._account = MOCK_ACCOUNT;
+    this.emit('connect', MOCK_ACCOUNT.publicKey!);
+  }
+
+  async disconnect(): Promise<void> {
+    this.disconnectCalls += 1;
+    if (!this._account) return;
+    this._account = null;
+    this.emit('disconnect');
+  }
+
+  async signTransaction(): Promise<Uint8Array> {
+    return new Uint8Array([1, 2, 3]);
+  }
+
+  async signAndSubmitTransaction(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    transaction: TransactionPayload
+  ): Promise<{ hash: HexEncodedBytes }> {
+    return { hash: '0xabc' };
+  }
+
+  protected async signRawMessage(message: string): Promise<string> {
+    return `signed:${message}`;
+  }
+
+  async getChainId(): Promise<number> {
+    return 4;
+  }
+}
+
+export const OTHER_ACCOUNT: AccountKeys = {
+  address: '0x2',
+  publicKey: '0x2345',
+  authKey: '0x6789'
+};
+
+/** Holds `MOCK_ACCOUNT` and `OTHER_ACCOUNT`, connecting to the first one */
+export class MockMultiAccountWalletAdapter extends MockWalletAdapter {
+  heldAccounts: AccountKeys[] = [MOCK_ACCOUNT, OTHER_ACCOUNT];
+
+  switchCalls: string[] = [];
+
+  async getAccounts(): Promise<AccountKeys[]> {
+    return this.heldAccounts;
+  }
+
+  async switchAccount(address: Address): Promise<void> {
+    this.switchCalls.push(address.toString());
+    const account = this.heldAccounts.find((held) => held.address === address);
+    if (!account) throw new WalletAccountError(`No account ${address}`);
+    this.changeAccount(account);
+  }
+}
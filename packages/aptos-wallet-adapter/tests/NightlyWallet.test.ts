@@ -0,0 +1,153 @@
+import { AptosClient, BCS, TxnBuilderTypes } from 'aptos';
+import { TextDecoder, TextEncoder } from 'util';
+import { WalletAdapterNetwork } from '../src/WalletAdapters/BaseAdapter';
+import { NightlyWalletAdapter } from '../src/WalletAdapters/NightlyWallet';
+import {
+  WalletErrorCode,
+  WalletSignAndSubmitMessageError,
+  WalletUserRejectedError
+} from '../src/WalletProviders/errors';
+
+// jsdom doesn't provide them, BCS encodes identifiers with them
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const { AccountAddress, EntryFunction, RawTransaction, TransactionPayloadEntryFunction } =
+  TxnBuilderTypes;
+
+const ADDRESS = '0x' + '1'.repeat(64);
+const PUBLIC_KEY = '0x' + '2'.repeat(64);
+const SIGNED = new Uint8Array([1, 2, 3]);
+
+const transfer = () =>
+  new TransactionPayloadEntryFunction(
+    EntryFunction.natural(
+      '0x1::coin',
+      'transfer',
+      [],
+      [BCS.bcsToBytes(AccountAddress.fromHex('0x2')), BCS.bcsSerializeUint64(717)]
+    )
+  );
+
+describe('NightlyWalletAdapter', () => {
+  let nightly: Record<string, jest.Mock>;
+  let onWalletDisconnect: (() => void) | undefined;
+  let nodeUrls: string[];
+  let submitSignedBCSTransaction: jest.SpyInstance;
+
+  beforeEach(() => {
+    onWalletDisconnect = undefined;
+    nightly = {
+      connect: jest.fn(async (onDisconnect?: () => void) => {
+        onWalletDisconnect = onDisconnect;
+        return { asString: () => PUBLIC_KEY, address: () => ADDRESS };
+      }),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      signTransaction: jest.fn().mockResolvedValue(SIGNED),
+      signMessage: jest.fn().mockResolvedValue(new Uint8Array([0xab]))
+    };
+    Object.assign(window, { nightly: { aptos: nightly } });
+
+    nodeUrls = [];
+    jest.spyOn(AptosClient.prototype, 'getAccount').mockResolvedValue({
+      sequence_number: '3',
+      authentication_key: ADDRESS
+    });
+    jest.spyOn(AptosClient.prototype, 'getChainId').mockResolvedValue(4);
+    submitSignedBCSTransaction = jest
+      .spyOn(AptosClient.prototype, 'submitSignedBCSTransaction')
+      .mockImplementation(async function (this: AptosClient) {
+        nodeUrls.push(this.client.request.config.BASE);
+        return { hash: '0xabc' } as any;
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (window as any).nightly;
+  });
+
+  const signedRawTransaction = (): TxnBuilderTypes.RawTransaction =>
+    nightly.signTransaction.mock.calls[0][0];
+
+  it('connects and disconnects, also when the wallet ends the session', async () => {
+    const adapter = new NightlyWalletAdapter();
+    const onDisconnect = jest.fn();
+    adapter.on('disconnect', onDisconnect);
+
+    await adapter.connect();
+    expect(adapter.connected).toBe(true);
+    expect(adapter.publicAccount).toEqual({
+      address: ADDRESS,
+      publicKey: PUBLIC_KEY,
+      authKey: null
+    });
+
+    await adapter.disconnect();
+    expect(nightly.disconnect).toHaveBeenCalledTimes(1);
+    expect(adapter.connected).toBe(false);
+
+    await adapter.connect();
+    onWalletDisconnect!();
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(adapter.connected).toBe(false);
+    expect(onDisconnect).toHaveBeenCalledTimes(2);
+  });
+
+  it('has the BCS raw transaction signed with the requested options', async () => {
+    const adapter = new NightlyWalletAdapter();
+    await adapter.connect();
+
+    await expect(
+      adapter.signTransaction(transfer(), {
+        max_gas_amount: 5000,
+        gas_unit_price: '150',
+        sequence_number: '9'
+      })
+    ).resolves.toBe(SIGNED);
+
+    const rawTxn = signedRawTransaction();
+    expect(rawTxn).toBeInstanceOf(RawTransaction);
+    expect(rawTxn.sequence_number).toBe(BigInt(9));
+    expect(rawTxn.max_gas_amount).toBe(BigInt(5000));
+    expect(rawTxn.gas_unit_price).toBe(BigInt(150));
+    expect(rawTxn.chain_id.value).toBe(4);
+    expect(submitSignedBCSTransaction).not.toHaveBeenCalled();
+  });
+
+  it('submits the signed transaction through the configured node', async () => {
+    const adapter = new NightlyWalletAdapter({ nodeUrl: 'http://127.0.0.1:8080' });
+    await adapter.connect();
+
+    await expect(adapter.signAndSubmitTransaction(transfer())).resolves.toEqual({
+      hash: '0xabc'
+    });
+    expect(submitSignedBCSTransaction).toHaveBeenCalledWith(SIGNED);
+    expect(signedRawTransaction().sequence_number).toBe(BigInt(3));
+
+    const devnet = new NightlyWalletAdapter({ network: WalletAdapterNetwork.Devnet });
+    await devnet.connect();
+    await devnet.signAndSubmitTransaction(transfer());
+    expect(nodeUrls).toEqual(['http://127.0.0.1:8080/v1', expect.stringContaining('devnet')]);
+  });
+
+  it('reports a declined prompt as a rejection', async () => {
+    nightly.signTransaction.mockRejectedValue(new Error('User rejected the request'));
+    const adapter = new NightlyWalletAdapter();
+    adapter.on('error', () => undefined);
+    await adapter.connect();
+
+    const error = await adapter.signAndSubmitTransaction(transfer()).catch((e) => e);
+    expect(error).toBeInstanceOf(WalletUserRejectedError);
+    expect(error).toMatchObject({
+      code: WalletErrorCode.UserRejected,
+      walletName: 'Nightly Wallet',
+      operation: 'signAndSubmitTransaction'
+    });
+    expect(submitSignedBCSTransaction).not.toHaveBeenCalled();
+
+    nightly.signTransaction.mockRejectedValue(new Error('Ledger disconnected'));
+    await expect(adapter.signAndSubmitTransaction(transfer())).rejects.toBeInstanceOf(
+      WalletSignAndSubmitMessageError
+    );
+  });
+});
@@ -0,0 +1,422 @@
+import { HexString } from 'aptos';
+import { TextDecoder, TextEncoder } from 'util';
+import { WalletAdapterNetwork } from '../src/WalletAdapters/BaseAdapter';
+import { RelayWalletAdapter } from '../src/WalletAdapters/RelayWallet';
+import {
+  WalletConnectionError,
+  WalletErrorCode,
+  WalletSignMessageError,
+  WalletUserRejectedError
+} from '../src/WalletProviders/errors';
+import {
+  openRelayMessage,
+  parseRelayPairingUri,
+  RelayMessage,
+  RelayRequest,
+  sealRelayMessage
+} from '../src/utilities/relayPairing';
+import { InProcessRelay, RelayTransport } from '../src/utilities/relayTransport';
+
+// jsdom doesn't provide them, and nacl only takes Uint8Arrays of the test's own realm
+Object.assign(globalThis, {
+  TextEncoder: class {
+    encode = (text: string) => Uint8Array.from(new TextEncoder().encode(text));
+  },
+  TextDecoder
+});
+
+const RELAY_URL = 'wss://relay.example.com';
+
+const ACCOUNT = { address: '0x1', publicKey: '0x1234', authKey: '0x5678' };
+
+const TRANSFER = {
+  type: 'entry_function_payload',
+  function: '0x1::coin::transfer',
+  type_arguments: ['0x1::aptos_coin::AptosCoin'],
+  arguments: ['0x2', '717']
+};
+
+/** The phone's side of the protocol, built from the exported pairing helpers only */
+class FakeWallet {
+  /** Everything published by the dApp, as the relay saw it */
+  received: string[] = [];
+
+  messages: RelayMessage[] = [];
+
+  requests: RelayRequest[] = [];
+
+  /** What arrived without being a sealed message at all */
+  errors: Error[] = [];
+
+  /** Sequence number of the last message sent */
+  sent = 0;
+
+  answer: (request: RelayRequest) => RelayMessage | undefined = () => undefined;
+
+  protected _transport: RelayTransport;
+
+  protected _pairing: ReturnType<typeof parseRelayPairingUri>;
+
+  constructor(relay: InProcessRelay, uri: string) {
+    this._pairing = parseRelayPairingUri(uri);
+    this._transport = relay.transport();
+  }
+
+  get peer() {
+    return this._pairing.peer;
+  }
+
+  async join(): Promise<void> {
+    await this._transport.open(this._pairing.topic, (sealed) => {
+      this.received.push(sealed);
+      let message: RelayMessage | undefined;
+      try {
+        message = openRelayMessage(sealed, this._pairing.key)?.message;
+      } catch (error: any) {
+        this.errors.push(error);
+      }
+      if (message) this.messages.push(message);
+      if (message && 'method' in message && 'id' in message) {
+        this.requests.push(message);
+        const response = this.answer(message);
+        if (response) void this.send(response);
+      }
+    });
+  }
+
+  send(message: RelayMessage): Promise<void> {
+    this.sent += 1;
+    return this._transport.publish(
+      sealRelayMessage({ from: 'wallet', seq: this.sent, message }, this._pairing.key)
+    );
+  }
+}
+
+describe('RelayWalletAdapter', () => {
+  let relay: InProcessRelay;
+  let pairingUris: string[];
+
+  const createAdapter = () =>
+    new RelayWalletAdapter({
+      relayUrl: RELAY_URL,
+      transport: () => relay.transport(),
+      onPairingUri: (uri) => pairingUris.push(uri),
+      timeout: 1000
+    });
+
+  // Lets pending relay deliveries and the adapter's reactions to them happen
+  const flush = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+  const pair = async (adapter: RelayWalletAdapter) => {
+    const connecting = adapter.connect();
+    await flush();
+    const wallet = new FakeWallet(relay, pairingUris[pairingUris.length - 1]!);
+    await wallet.join();
+    await wallet.send({
+      jsonrpc: '2.0',
+      method: 'aptos_approveSession',
+      params: { ...ACCOUNT, network: 'Testnet' }
+    });
+    await connecting;
+    return wallet;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    relay = new InProcessRelay();
+    pairingUris = [];
+  });
+
+  it('pairs through the URI and connects with the approved account', async () => {
+    const adapter = createAdapter();
+    const onConnect = jest.fn();
+    adapter.on('connect', onConnect);
+
+    const wallet = await pair(adapter);
+    expect(wallet.peer).toEqual({
+      name: document.title || undefined,
+      url: window.location.origin,
+      network: 'devnet'
+    });
+    expect(adapter.connected).toBe(true);
+    expect(adapter.publicAccount).toEqual(ACCOUNT);
+    expect(adapter.network).toBe(WalletAdapterNetwork.Testnet);
+    expect(adapter.pairingUri).toBeNull();
+    expect(onConnect).toHaveBeenCalledWith(ACCOUNT.publicKey);
+    // The session key stays with the tab
+    const { key } = parseRelayPairingUri(pairingUris[0]!);
+    expect(sessionStorage.getItem('aptosRelaySession')).toContain(
+      HexString.fromUint8Array(key).hex()
+    );
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('fails to connect when the user declines the pairing', async () => {
+    const adapter = createAdapter();
+    const connecting = adapter.connect().catch((e) => e);
+    await flush();
+    const wallet = new FakeWallet(relay, pairingUris[0]!);
+    await wallet.join();
+    await wallet.send({ jsonrpc: '2.0', method: 'aptos_rejectSession' });
+
+    const error = await connecting;
+    expect(error).toBeInstanceOf(WalletUserRejectedError);
+    expect(error).toMatchObject({ walletName: 'Relay', operation: 'connect' });
+    expect(adapter.connected).toBe(false);
+    expect(sessionStorage.length).toBe(0);
+  });
+
+  it('sends sealed requests and resolves with the answers', async () => {
+    const adapter = createAdapter();
+    const wallet = await pair(adapter);
+    wallet.answer = ({ id, method }) => ({
+      jsonrpc: '2.0',
+      id,
+      result:
+        method === 'aptos_signAndSubmitTransaction' ? { hash: '0xabc' } : { signature: '0xsig' }
+    });
+
+    await expect(
+      adapter.signAndSubmitTransaction(TRANSFER, { max_gas_amount: 1000 })
+    ).resolves.toEqual({ hash: '0xabc' });
+    await expect(adapter.signMessage('hello')).resolves.toBe('0xsig');
+
+    expect(wallet.requests).toMatchObject([
+      {
+        method: 'aptos_signAndSubmitTransaction',
+        params: { payload: TRANSFER, options: { max_gas_amount: '1000' } }
+      },
+      { method: 'aptos_signMessage', params: { message: 'hello' } }
+    ]);
+    // The relay only ever sees ciphertext
+    wallet.received.forEach((sealed) => {
+      expect(sealed).not.toContain('aptos_');
+      expect(sealed).not.toContain('hello');
+    });
+  });
+
+  it('reports JSON-RPC errors, declining as a rejection', async () => {
+    const adapter = createAdapter();
+    const wallet = await pair(adapter);
+    wallet.answer = ({ id }) => ({
+      jsonrpc: '2.0',
+      id,
+      error: { code: 4001, message: 'User declined' }
+    });
+
+    const error = await adapter.signMessage('hello').catch((e) => e);
+    expect(error).toBeInstanceOf(WalletUserRejectedError);
+    expect(error).toMatchObject({
+      code: WalletErrorCode.UserRejected,
+      message: 'User declined',
+      operation: 'signMessage'
+    });
+
+    wallet.answer = ({ id }) => ({ jsonrpc: '2.0', id, error: { code: -32000, message: 'Boom' } });
+    await expect(adapter.signMessage('hello')).rejects.toBeInstanceOf(WalletSignMessageError);
+  });
+
+  it('ignores messages not sealed with the session key', async () => {
+    const adapter = createAdapter();
+    const wallet = await pair(adapter);
+    const intruder = relay.transport();
+    await intruder.open(parseRelayPairingUri(pairingUris[0]!).topic, () => undefined);
+    const onAccountChange = jest.fn();
+    const onError = jest.fn();
+    adapter.on('accountChange', onAccountChange);
+    adapter.on('error', onError);
+
+    await intruder.publish(
+      sealRelayMessage(
+        {
+          from: 'wallet',
+          seq: 100,
+          message: { jsonrpc: '2.0', method: 'aptos_accountChanged', params: { address: '0x666' } }
+        },
+        new Uint8Array(32)
+      )
+    );
+    await intruder.publish('not even json');
+    // The same account, padded and cased differently
+    await wallet.send({
+      jsonrpc: '2.0',
+      method: 'aptos_accountChanged',
+      params: { ...ACCOUNT, address: '0x' + '0'.repeat(63) + '1' }
+    });
+    await flush();
+    expect(onAccountChange).not.toHaveBeenCalled();
+    // Garbage on the topic is reported, unlike what was merely sealed with another key
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(WalletConnectionError);
+    expect(onError.mock.calls[0][0].message).toMatch(/^Malformed relay message/);
+    expect(wallet.errors).toHaveLength(1);
+
+    await wallet.send({
+      jsonrpc: '2.0',
+      method: 'aptos_accountChanged',
+      params: { address: '0x2' }
+    });
+    await flush();
+    expect(onAccountChange).toHaveBeenCalledWith({
+      address: '0x2',
+      publicKey: null,
+      authKey: null
+    });
+  });
+
+  it('drops messages the relay replays or that were sent by a dApp, also after a reload', async () => {
+    const adapter = createAdapter();
+    const wallet = await pair(adapter);
+    const recorded: string[] = [];
+    const intruder = relay.transport();
+    await intruder.open(parseRelayPairingUri(pairingUris[0]!).topic, (sealed) =>
+      recorded.push(sealed)
+    );
+    const onAccountChange = jest.fn();
+    adapter.on('accountChange', onAccountChange);
+
+    await wallet.send({
+      jsonrpc: '2.0',
+      method: 'aptos_accountChanged',
+      params: { address: '0x2' }
+    });
+    await wallet.send({ jsonrpc: '2.0', method: 'aptos_accountChanged', params: ACCOUNT });
+    await intruder.publish(recorded[0]!);
+    await flush();
+    expect(onAccountChange).toHaveBeenCalledTimes(2);
+    expect(adapter.publicAccount).toEqual(ACCOUNT);
+
+    wallet.answer = ({ id }) => ({ jsonrpc: '2.0', id, result: {} });
+    const reloaded = createAdapter();
+    await reloaded.connect();
+    const onReloadedAccountChange = jest.fn();
+    reloaded.on('accountChange', onReloadedAccountChange);
+    await intruder.publish(recorded[0]!);
+    // Reaches the reloaded adapter as well, which takes disconnects from the wallet only
+    await adapter.disconnect();
+    await flush();
+
+    expect(onReloadedAccountChange).not.toHaveBeenCalled();
+    expect(reloaded.publicAccount).toEqual(ACCOUNT);
+    expect(reloaded.connected).toBe(true);
+  });
+
+  it('reports failing to store the session without failing the connection', async () => {
+    const adapter = createAdapter();
+    const onError = jest.fn();
+    adapter.on('error', onError);
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+
+    await pair(adapter);
+    setItem.mockRestore();
+
+    expect(adapter.connected).toBe(true);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      message: 'QuotaExceededError',
+      walletName: 'Relay',
+      operation: 'connect'
+    });
+  });
+
+  it('pairs again when the stored session is unreadable', async () => {
+    sessionStorage.setItem('aptosRelaySession', '{');
+    const adapter = createAdapter();
+    const onError = jest.fn();
+    adapter.on('error', onError);
+
+    await pair(adapter);
+
+    expect(pairingUris).toHaveLength(1);
+    expect(adapter.connected).toBe(true);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(WalletConnectionError);
+  });
+
+  it('lists the accounts the wallet holds and switches to another one', async () => {
+    const adapter = createAdapter();
+    const wallet = await pair(adapter);
+    const other = { address: '0x2', publicKey: '0x2345' };
+    wallet.answer = ({ id, method, params }) => ({
+      jsonrpc: '2.0',
+      id,
+      result:
+        method === 'aptos_getAccounts'
+          ? { accounts: [ACCOUNT, other] }
+          : [ACCOUNT, other].find(({ address }) => address === params?.address)
+    });
+    const onAccountChange = jest.fn();
+    adapter.on('accountChange', onAccountChange);
+
+    expect(adapter.supports('multiAccount')).toBe(true);
+    await expect(adapter.getAccounts()).resolves.toEqual([ACCOUNT, { ...other, authKey: null }]);
+    await adapter.switchAccount('0x2');
+
+    expect(wallet.requests).toMatchObject([
+      { method: 'aptos_getAccounts' },
+      { method: 'aptos_switchAccount', params: { address: '0x2' } }
+    ]);
+    expect(onAccountChange).toHaveBeenCalledWith({ ...other, authKey: null });
+    // The session goes on with it after a reload
+    const reloaded = createAdapter();
+    await reloaded.connect();
+    expect(reloaded.publicAccount).toEqual({ ...other, authKey: null });
+  });
+
+  it('resumes the session after a reload without pairing again', async () => {
+    const wallet = await pair(createAdapter());
+    wallet.answer = ({ id, method }) => ({
+      jsonrpc: '2.0',
+      id,
+      result: method === 'aptos_ping' ? {} : { signature: '0xsig' }
+    });
+
+    const reloaded = createAdapter();
+    await reloaded.connect();
+    expect(wallet.requests[0]).toMatchObject({ method: 'aptos_ping' });
+    expect(pairingUris).toHaveLength(1);
+    expect(reloaded.publicAccount).toEqual(ACCOUNT);
+    expect(reloaded.network).toBe(WalletAdapterNetwork.Testnet);
+    await expect(reloaded.signMessage('hello')).resolves.toBe('0xsig');
+  });
+
+  it('drops the stored session when the wallet no longer answers on it', async () => {
+    await pair(createAdapter());
+    const reloaded = createAdapter();
+    const onConnect = jest.fn();
+    reloaded.on('connect', onConnect);
+    reloaded.on('error', () => undefined);
+
+    const error = await reloaded.connect(50).catch((e) => e);
+
+    expect(error).toMatchObject({ code: WalletErrorCode.Timeout, operation: 'connect' });
+    expect(reloaded.connected).toBe(false);
+    expect(onConnect).not.toHaveBeenCalled();
+    expect(sessionStorage.length).toBe(0);
+
+    await pair(reloaded);
+    expect(pairingUris).toHaveLength(2);
+  });
+
+  it('ends the session on either side', async () => {
+    const adapter = createAdapter();
+    const wallet = await pair(adapter);
+    const onDisconnect = jest.fn();
+    adapter.on('disconnect', onDisconnect);
+
+    await wallet.send({ jsonrpc: '2.0', method: 'aptos_disconnect' });
+    await flush();
+    expect(adapter.connected).toBe(false);
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(sessionStorage.length).toBe(0);
+
+    const next = await pair(adapter);
+    await adapter.disconnect();
+    await flush();
+    expect(adapter.connected).toBe(false);
+    expect(sessionStorage.length).toBe(0);
+    expect(next.messages).toEqual([{ jsonrpc: '2.0', method: 'aptos_disconnect' }]);
+  });
+});
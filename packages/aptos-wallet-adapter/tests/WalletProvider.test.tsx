@@ -0,0 +1,909 @@
+import { act, render } from '@testing-library/react';
+import { AptosClient, WaitForTransactionError } from 'aptos';
+import type { UserTransaction } from 'aptos/src/generated';
+import { ReactNode } from 'react';
+import {
+  WalletAdapterNetwork,
+  WalletName,
+  WalletReadyState
+} from '../src/WalletAdapters/BaseAdapter';
+import { WalletProvider, WalletProviderProps } from '../src/WalletProviders/WalletProvider';
+import { useWallet, WalletContextState } from '../src/WalletProviders/useWallet';
+import {
+  TrackedTransaction,
+  TransactionsContextState,
+  useTransactions
+} from '../src/WalletProviders/useTransactions';
+import {
+  WalletConnectionError,
+  WalletErrorCode,
+  WalletMethodNotSupportedError,
+  WalletNotConnectedError,
+  WalletNotReadyError,
+  WalletSimulationError,
+  WalletTransactionFailedError
+} from '../src/WalletProviders/errors';
+import { SimulationResult } from '../src/utilities/simulateTransaction';
+import {
+  MOCK_ACCOUNT,
+  MockMultiAccountWalletAdapter,
+  MockWalletAdapter,
+  OTHER_ACCOUNT
+} from './MockWalletAdapter';
+
+const LOCAL_STORAGE_KEY = 'walletName';
+
+const TRANSFER = {
+  type: 'entry_function_payload',
+  function: '0x1::coin::transfer',
+  type_arguments: ['0x1::aptos_coin::AptosCoin'],
+  arguments: ['0x2', '717']
+};
+
+function renderProvider(props: Omit<WalletProviderProps, 'children'>) {
+  const context: { current: WalletContextState | null } = { current: null };
+  const history: { current: TransactionsContextState | null } = { current: null };
+  const Consumer = () => {
+    context.current = useWallet();
+    history.current = useTransactions();
+    return null;
+  };
+  const tree = (treeProps: Omit<WalletProviderProps, 'children'>): ReactNode => (
+    <WalletProvider {...treeProps}>
+      <Consumer />
+    </WalletProvider>
+  );
+  const result = render(<>{tree(props)}</>);
+  return {
+    wallet: () => context.current!,
+    transactions: () => history.current!,
+    rerender: (nextProps: Omit<WalletProviderProps, 'children'>) =>
+      result.rerender(<>{tree(nextProps)}</>),
+    unmount: result.unmount
+  };
+}
+
+async function connectWallet(wallet: () => WalletContextState, name: string, timeout?: number) {
+  // The first call selects the wallet, the second one connects the selected adapter
+  await act(async () => {
+    await wallet().connect(name, timeout);
+  });
+  await act(async () => {
+    await wallet().connect(name, timeout);
+  });
+}
+
+describe('WalletProvider', () => {
+  let petra: MockWalletAdapter;
+  let martian: MockWalletAdapter;
+  let waitForTransactionWithResult: jest.SpyInstance;
+
+  beforeEach(() => {
+    localStorage.clear();
+    // Transactions are followed until they settle, they stay pending unless a test says otherwise
+    waitForTransactionWithResult = jest
+      .spyOn(AptosClient.prototype, 'waitForTransactionWithResult')
+      .mockReturnValue(new Promise(() => {}));
+    petra = new MockWalletAdapter('Petra');
+    martian = new MockWalletAdapter('Martian', WalletReadyState.NotDetected);
+  });
+
+  afterEach(() => {
+    waitForTransactionWithResult.mockRestore();
+  });
+
+  describe('wallets', () => {
+    it('exposes every adapter with its ready state', () => {
+      const { wallet } = renderProvider({ wallets: [petra, martian] });
+
+      expect(wallet().wallets.map(({ adapter, readyState }) => [adapter.name, readyState])).toEqual(
+        [
+          ['Petra', WalletReadyState.Installed],
+          ['Martian', WalletReadyState.NotDetected]
+        ]
+      );
+      expect(wallet().wallet).toBeNull();
+      expect(wallet().connected).toBe(false);
+    });
+
+    it('updates a wallet when its adapter emits readyStateChange', () => {
+      const { wallet } = renderProvider({ wallets: [petra, martian] });
+      const [petraWallet] = wallet().wallets;
+
+      act(() => martian.setReadyState(WalletReadyState.Installed));
+
+      expect(wallet().wallets[1].readyState).toBe(WalletReadyState.Installed);
+      // Wallets that didn't change keep their identity
+      expect(wallet().wallets[0]).toBe(petraWallet);
+    });
+
+    it('follows changes to the adapter list', () => {
+      const dispose = jest.spyOn(petra, 'dispose');
+      const { wallet, rerender } = renderProvider({ wallets: [petra] });
+
+      rerender({ wallets: [martian, petra] });
+      expect(wallet().wallets.map(({ adapter }) => adapter)).toEqual([martian, petra]);
+      expect(dispose).not.toHaveBeenCalled();
+
+      rerender({ wallets: [martian] });
+      expect(wallet().wallets.map(({ adapter }) => adapter)).toEqual([martian]);
+      expect(dispose).toHaveBeenCalledTimes(1);
+
+      // Removed adapters are no longer listened to
+      act(() => petra.setReadyState(WalletReadyState.NotDetected));
+      expect(wallet().wallets).toHaveLength(1);
+      expect(petra.listenerCount('readyStateChange')).toBe(0);
+    });
+  });
+
+  describe('connect', () => {
+    it('selects the wallet and then connects it', async () => {
+      const { wallet } = renderProvider({ wallets: [petra, martian] });
+
+      await act(async () => {
+        await wallet().connect('Petra');
+      });
+      expect(wallet().wallet?.adapter).toBe(petra);
+      expect(wallet().connected).toBe(false);
+      expect(localStorage.getItem(LOCAL_STORAGE_KEY)).toBe(JSON.stringify('Petra'));
+
+      await act(async () => {
+        await wallet().connect('Petra');
+      });
+      expect(wallet().connected).toBe(true);
+      expect(wallet().account).toEqual(MOCK_ACCOUNT);
+      expect(wallet().network).toBe(WalletAdapterNetwork.Devnet);
+    });
+
+    it('clears the selection and reports the error when connecting fails', async () => {
+      const onError = jest.fn();
+      const { wallet } = renderProvider({ wallets: [petra], onError });
+      petra.connectError = new Error('User rejected the request');
+
+      await act(async () => {
+        await wallet().connect('Petra');
+      });
+      await act(async () => {
+        await expect(wallet().connect('Petra')).rejects.toBeInstanceOf(WalletConnectionError);
+      });
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(WalletConnectionError);
+      expect(onError.mock.calls[0][0].message).toBe('User rejected the request');
+      expect(wallet().wallet).toBeNull();
+      expect(wallet().connected).toBe(false);
+      expect(localStorage.getItem(LOCAL_STORAGE_KEY)).toBeNull();
+    });
+
+    it('opens the install page of a wallet that is not ready', async () => {
+      const onError = jest.fn();
+      const open = jest.spyOn(window, 'open').mockImplementation(() => null);
+      const { wallet } = renderProvider({ wallets: [martian], onError });
+
+      await act(async () => {
+        await wallet().connect('Martian');
+      });
+      await act(async () => {
+        await expect(wallet().connect('Martian')).rejects.toBeInstanceOf(WalletNotReadyError);
+      });
+
+      expect(open).toHaveBeenCalledWith(martian.url, '_blank');
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(WalletNotReadyError);
+      expect(martian.connectCalls).toHaveLength(0);
+      expect(wallet().wallet).toBeNull();
+      open.mockRestore();
+    });
+
+    it('leaves the install page closed where the wallet is unsupported', async () => {
+      const open = jest.spyOn(window, 'open').mockImplementation(() => null);
+      martian.setReadyState(WalletReadyState.Unsupported);
+      const { wallet } = renderProvider({ wallets: [martian], onError: jest.fn() });
+
+      await act(async () => {
+        await wallet().connect('Martian');
+      });
+      await act(async () => {
+        await expect(wallet().connect('Martian')).rejects.toBeInstanceOf(WalletNotReadyError);
+      });
+
+      expect(open).not.toHaveBeenCalled();
+      open.mockRestore();
+    });
+
+    it('passes the timeout through, falling back to the provider default', async () => {
+      const { wallet } = renderProvider({ wallets: [petra], timeout: 3000 });
+
+      await connectWallet(wallet, 'Petra', 500);
+      await act(async () => {
+        await wallet().disconnect();
+      });
+      await connectWallet(wallet, 'Petra');
+
+      expect(petra.connectCalls).toEqual([500, 3000]);
+    });
+
+    it('reconnects after a disconnect', async () => {
+      const { wallet } = renderProvider({ wallets: [petra] });
+
+      await connectWallet(wallet, 'Petra');
+      await act(async () => {
+        await wallet().disconnect();
+      });
+      expect(wallet().connected).toBe(false);
+      expect(wallet().wallet).toBeNull();
+
+      await connectWallet(wallet, 'Petra');
+      expect(wallet().connected).toBe(true);
+      expect(wallet().account).toEqual(MOCK_ACCOUNT);
+      expect(petra.connectCalls).toHaveLength(2);
+    });
+
+    it('disconnects the previous adapter when another wallet is selected', async () => {
+      martian.setReadyState(WalletReadyState.Installed);
+      const { wallet } = renderProvider({ wallets: [petra, martian] });
+
+      await connectWallet(wallet, 'Petra');
+      act(() => wallet().select('Martian' as WalletName));
+
+      expect(petra.disconnectCalls).toBe(1);
+      expect(petra.connected).toBe(false);
+    });
+  });
+
+  describe('autoConnect', () => {
+    it('connects the remembered wallet on mount', async () => {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify('Petra'));
+
+      const { wallet } = renderProvider({ wallets: [petra], autoConnect: true, timeout: 2000 });
+      await act(async () => {});
+
+      expect(petra.connectCalls).toEqual([2000]);
+      expect(wallet().connected).toBe(true);
+      expect(wallet().autoConnect).toBe(true);
+    });
+
+    it('waits until the remembered wallet is detected', async () => {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify('Martian'));
+
+      const { wallet } = renderProvider({ wallets: [martian], autoConnect: true });
+      await act(async () => {});
+      expect(martian.connectCalls).toHaveLength(0);
+
+      await act(async () => {
+        martian.setReadyState(WalletReadyState.Installed);
+      });
+      expect(martian.connectCalls).toHaveLength(1);
+      expect(wallet().connected).toBe(true);
+    });
+
+    it('does nothing without autoConnect', async () => {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify('Petra'));
+
+      const { wallet } = renderProvider({ wallets: [petra] });
+      await act(async () => {});
+
+      expect(petra.connectCalls).toHaveLength(0);
+      expect(wallet().wallet?.adapter).toBe(petra);
+      expect(wallet().connected).toBe(false);
+    });
+
+    it('connects the wallet the page was reopened for through its deep link', async () => {
+      window.history.replaceState(null, '', '/?aptosWallet=Martian');
+
+      const { wallet } = renderProvider({ wallets: [petra, martian] });
+      await act(async () => {});
+      expect(wallet().wallet?.adapter).toBe(martian);
+      expect(window.location.search).toBe('');
+
+      await act(async () => {
+        martian.setReadyState(WalletReadyState.Installed);
+      });
+      expect(martian.connectCalls).toHaveLength(1);
+      expect(wallet().connected).toBe(true);
+    });
+
+    it('does not follow a deep link without the user asking', async () => {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify('Petra'));
+      petra.setReadyState(WalletReadyState.Loadable);
+      petra.deepLink = 'https://petra.app/explore?link={url}';
+
+      renderProvider({ wallets: [petra], autoConnect: true });
+      await act(async () => {});
+
+      expect(petra.connectCalls).toHaveLength(0);
+    });
+
+    it('forgets the remembered wallet when connecting fails', async () => {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify('Petra'));
+      petra.connectError = new Error('Wallet is locked');
+      const onError = jest.fn();
+
+      const { wallet } = renderProvider({ wallets: [petra], autoConnect: true, onError });
+      await act(async () => {});
+
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(WalletConnectionError);
+      expect(wallet().wallet).toBeNull();
+      expect(localStorage.getItem(LOCAL_STORAGE_KEY)).toBeNull();
+    });
+  });
+
+  describe('adapter events', () => {
+    it('propagates network and account changes', async () => {
+      const { wallet } = renderProvider({ wallets: [petra] });
+      await connectWallet(wallet, 'Petra');
+
+      const account = { address: '0x2', publicKey: '0x22', authKey: '0x222' };
+      act(() => petra.changeNetwork(WalletAdapterNetwork.Testnet));
+      act(() => petra.changeAccount(account));
+
+      expect(wallet().network).toBe(WalletAdapterNetwork.Testnet);
+      expect(wallet().account).toEqual(account);
+      expect(wallet().connected).toBe(true);
+    });
+
+    it('clears the selection when the wallet disconnects on its own', async () => {
+      const { wallet } = renderProvider({ wallets: [petra] });
+      await connectWallet(wallet, 'Petra');
+
+      await act(async () => {
+        await petra.disconnect();
+      });
+
+      expect(wallet().wallet).toBeNull();
+      expect(wallet().connected).toBe(false);
+    });
+
+    it('forwards adapter errors to onError, or console.error without one', async () => {
+      const onError = jest.fn();
+      const { wallet, rerender } = renderProvider({ wallets: [petra], onError });
+      await connectWallet(wallet, 'Petra');
+
+      const error = new WalletNotConnectedError();
+      act(() => {
+        petra.emit('error', error);
+      });
+      expect(onError).toHaveBeenCalledWith(error);
+
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      rerender({ wallets: [petra] });
+      act(() => {
+        petra.emit('error', error);
+      });
+      expect(consoleError).toHaveBeenCalledWith(error);
+      expect(onError).toHaveBeenCalledTimes(1);
+      consoleError.mockRestore();
+    });
+
+    it('ignores disconnect and error events while the window unloads', async () => {
+      const onError = jest.fn();
+      const { wallet } = renderProvider({ wallets: [petra], onError });
+      await connectWallet(wallet, 'Petra');
+
+      act(() => {
+        window.dispatchEvent(new Event('beforeunload'));
+      });
+      await act(async () => {
+        petra.emit('error', new WalletConnectionError('unloading'));
+        await petra.disconnect();
+      });
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(localStorage.getItem(LOCAL_STORAGE_KEY)).toBe(JSON.stringify('Petra'));
+    });
+  });
+
+  describe('accounts', () => {
+    const ACCOUNT_KEY = `${LOCAL_STORAGE_KEY}:account`;
+    let hoard: MockMultiAccountWalletAdapter;
+
+    beforeEach(() => {
+      hoard = new MockMultiAccountWalletAdapter('Hoard');
+    });
+
+    it('lists only the connected account of single-account wallets', async () => {
+      const onError = jest.fn();
+      const { wallet } = renderProvider({ wallets: [petra], onError });
+      expect(wallet().accounts).toEqual([]);
+      await connectWallet(wallet, 'Petra');
+
+      expect(wallet().supports('multiAccount')).toBe(false);
+      expect(wallet().accounts).toEqual([MOCK_ACCOUNT]);
+      await expect(wallet().switchAccount('0x2')).rejects.toBeInstanceOf(
+        WalletMethodNotSupportedError
+      );
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('lists the wallet accounts and switches between them, remembering the choice', async () => {
+      const { wallet } = renderProvider({ wallets: [hoard] });
+      await connectWallet(wallet, 'Hoard');
+
+      expect(wallet().supports('multiAccount')).toBe(true);
+      expect(wallet().accounts).toEqual([MOCK_ACCOUNT, OTHER_ACCOUNT]);
+      expect(localStorage.getItem(ACCOUNT_KEY)).toBe(JSON.stringify('0x1'));
+
+      await act(async () => {
+        await wallet().switchAccount('0x2', 3000);
+      });
+      expect(wallet().account).toEqual(OTHER_ACCOUNT);
+      expect(localStorage.getItem(ACCOUNT_KEY)).toBe(JSON.stringify('0x2'));
+
+      await act(async () => {
+        await wallet().disconnect();
+      });
+      expect(wallet().accounts).toEqual([]);
+      expect(localStorage.getItem(ACCOUNT_KEY)).toBeNull();
+    });
+
+    it('gets back to the remembered account on autoConnect', async () => {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify('Hoard'));
+      localStorage.setItem(ACCOUNT_KEY, JSON.stringify('0x2'));
+
+      const { wallet } = renderProvider({ wallets: [hoard], autoConnect: true });
+      await act(async () => {});
+
+      expect(hoard.switchCalls).toEqual(['0x2']);
+      expect(wallet().account).toEqual(OTHER_ACCOUNT);
+      expect(localStorage.getItem(ACCOUNT_KEY)).toBe(JSON.stringify('0x2'));
+    });
+
+    it('stays on the default account when the remembered one is gone', async () => {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify('Hoard'));
+      localStorage.setItem(ACCOUNT_KEY, JSON.stringify('0x3'));
+
+      const { wallet } = renderProvider({ wallets: [hoard], autoConnect: true });
+      await act(async () => {});
+
+      expect(hoard.switchCalls).toEqual([]);
+      expect(wallet().connected).toBe(true);
+      expect(wallet().account).toEqual(MOCK_ACCOUNT);
+      expect(localStorage.getItem(ACCOUNT_KEY)).toBe(JSON.stringify('0x1'));
+    });
+  });
+
+  describe('multiConnect', () => {
+    const MARTIAN_ACCOUNT = { address: '0x2', publicKey: '0x2222', authKey: null };
+
+    async function connectBoth(props: Partial<WalletProviderProps> = {}) {
+      martian.setReadyState(WalletReadyState.Installed);
+      const rendered = renderProvider({ wallets: [petra, martian], multiConnect: true, ...props });
+      await act(async () => {
+        await rendered.wallet().connect('Petra');
+      });
+      await act(async () => {
+        await rendered.wallet().connect('Martian');
+        martian.changeAccount(MARTIAN_ACCOUNT);
+      });
+      return rendered;
+    }
+
+    it('keeps wallets connected side by side, the last one selected', async () => {
+      const { wallet } = await connectBoth();
+
+      expect(petra.connected).toBe(true);
+      expect(petra.disconnectCalls).toBe(0);
+      expect(wallet().connections.map(({ walletName, account }) => [walletName, account])).toEqual([
+        ['Petra', MOCK_ACCOUNT],
+        ['Martian', MARTIAN_ACCOUNT]
+      ]);
+      expect(wallet().wallet?.adapter).toBe(martian);
+      expect(wallet().account).toEqual(MARTIAN_ACCOUNT);
+
+      act(() => wallet().select('Petra' as WalletName));
+      expect(wallet().connected).toBe(true);
+      expect(wallet().account).toEqual(MOCK_ACCOUNT);
+      expect(martian.connected).toBe(true);
+    });
+
+    it('signs with the wallet picked by name or account address', async () => {
+      const onError = jest.fn();
+      const { wallet, transactions } = await connectBoth({ onError });
+      const petraSign = jest.spyOn(petra, 'signMessage');
+      const martianSign = jest.spyOn(martian, 'signMessage');
+
+      await expect(wallet().signMessage('hello', undefined, 'Petra')).resolves.toBe('signed:hello');
+      await expect(wallet().signMessage('hello', undefined, '0x02')).resolves.toBe('signed:hello');
+      await expect(wallet().signMessage('hello')).resolves.toBe('signed:hello');
+      expect(petraSign).toHaveBeenCalledTimes(1);
+      expect(martianSign).toHaveBeenCalledTimes(2);
+
+      await act(async () => {
+        await wallet().signAndSubmitTransaction(TRANSFER, undefined, undefined, 'Petra');
+      });
+      expect(transactions().transactions[0]).toMatchObject({
+        walletName: 'Petra',
+        account: MOCK_ACCOUNT.address
+      });
+
+      await expect(wallet().signMessage('hello', undefined, 'Pontem')).rejects.toBeInstanceOf(
+        WalletNotConnectedError
+      );
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back to another connected wallet when the selected one disconnects', async () => {
+      const { wallet } = await connectBoth();
+
+      await act(async () => {
+        await wallet().disconnect('Petra');
+      });
+      expect(wallet().connections.map(({ walletName }) => walletName)).toEqual(['Martian']);
+      expect(wallet().wallet?.adapter).toBe(martian);
+
+      await act(async () => {
+        await wallet().connect('Petra');
+      });
+      await act(async () => {
+        await wallet().disconnect();
+      });
+      expect(wallet().connections.map(({ walletName }) => walletName)).toEqual(['Martian']);
+      expect(wallet().wallet?.adapter).toBe(martian);
+      expect(wallet().connected).toBe(true);
+    });
+  });
+
+  describe('signing', () => {
+    it('rejects when no wallet is connected', async () => {
+      const onError = jest.fn();
+      const { wallet } = renderProvider({ wallets: [petra], onError });
+
+      await act(async () => {
+        await wallet().connect('Petra');
+      });
+      await expect(wallet().signMessage('hello')).rejects.toBeInstanceOf(WalletNotConnectedError);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(WalletNotConnectedError);
+    });
+
+    it('forwards requests to the connected adapter', async () => {
+      const { wallet } = renderProvider({ wallets: [petra] });
+      await connectWallet(wallet, 'Petra');
+
+      await expect(wallet().signMessage('hello')).resolves.toBe('signed:hello');
+      await expect(
+        wallet().signMessage({ message: 'hello', nonce: '42', address: true, chainId: true })
+      ).resolves.toEqual({
+        address: '0x1',
+        chainId: 4,
+        fullMessage: 'APTOS\naddress: 0x1\nchainId: 4\nmessage: hello\nnonce: 42',
+        message: 'hello',
+        nonce: '42',
+        prefix: 'APTOS',
+        publicKey: '0x1234',
+        signature: 'signed:APTOS\naddress: 0x1\nchainId: 4\nmessage: hello\nnonce: 42'
+      });
+      await act(async () => {
+        await expect(
+          wallet().signAndSubmitTransaction({
+            type: 'entry_function_payload',
+            function: '0x1::coin::transfer',
+            type_arguments: ['0x1::aptos_coin::AptosCoin'],
+            arguments: ['0x2', '717']
+          })
+        ).resolves.toEqual({ hash: '0xabc' });
+      });
+    });
+
+    it('simulates first and refuses to prompt the wallet when the simulation fails', async () => {
+      const onError = jest.fn();
+      petra.supportedTransactionOptions = ['max_gas_amount', 'gas_unit_price'];
+      const { wallet } = renderProvider({ wallets: [petra], onError });
+      await connectWallet(wallet, 'Petra');
+      jest.spyOn(petra, 'estimateGasUnitPrice').mockResolvedValue(BigInt(100));
+      const simulateTransaction = jest.spyOn(petra, 'simulateTransaction').mockResolvedValue({
+        success: false,
+        vmStatus: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)'
+      } as SimulationResult);
+      const signAndSubmitTransaction = jest.spyOn(petra, 'signAndSubmitTransaction');
+
+      await expect(
+        wallet().signAndSubmitTransaction(TRANSFER, { simulateFirst: true, max_gas_amount: '500' })
+      ).rejects.toMatchObject({
+        name: 'WalletSimulationError',
+        code: WalletErrorCode.InsufficientBalance,
+        walletName: 'Petra'
+      });
+      expect(simulateTransaction).toHaveBeenCalledWith(TRANSFER, {
+        max_gas_amount: '500',
+        gas_unit_price: '100'
+      });
+      expect(signAndSubmitTransaction).not.toHaveBeenCalled();
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(WalletSimulationError);
+
+      simulateTransaction.mockResolvedValue({ success: true } as SimulationResult);
+      await act(async () => {
+        await expect(
+          wallet().signAndSubmitTransaction(TRANSFER, {
+            simulateFirst: true,
+            gas_unit_price: '150'
+          })
+        ).resolves.toEqual({ hash: '0xabc' });
+      });
+      expect(signAndSubmitTransaction).toHaveBeenCalledWith(
+        TRANSFER,
+        { gas_unit_price: '150' },
+        undefined
+      );
+    });
+
+    it('reports a failed gas price estimate through onError', async () => {
+      const onError = jest.fn();
+      martian.setReadyState(WalletReadyState.Installed);
+      const { wallet } = renderProvider({ wallets: [petra, martian], onError, multiConnect: true });
+      await act(async () => {
+        await wallet().connect('Petra');
+      });
+      await act(async () => {
+        await wallet().connect('Martian');
+      });
+      const nodeError = new Error('Network Error');
+      // The SDK doesn't export its generated services, a client leads to their prototype
+      const estimateGasPrice = jest
+        .spyOn(
+          Object.getPrototypeOf(new AptosClient(petra.nodeUrl).client.transactions),
+          'estimateGasPrice'
+        )
+        .mockRejectedValue(nodeError);
+      const martianEstimate = jest
+        .spyOn(martian, 'estimateGasUnitPrice')
+        .mockResolvedValue(BigInt(100));
+
+      await expect(wallet().estimateGasUnitPrice()).resolves.toBe(BigInt(100));
+      await expect(wallet().estimateGasUnitPrice('Petra')).rejects.toMatchObject({
+        message: 'Network Error',
+        walletName: 'Petra',
+        operation: 'estimateGasUnitPrice'
+      });
+      expect(martianEstimate).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledTimes(1);
+
+      await expect(
+        wallet().signAndSubmitTransaction(TRANSFER, { simulateFirst: true }, undefined, 'Petra')
+      ).rejects.toMatchObject({ error: nodeError });
+      expect(onError).toHaveBeenCalledTimes(2);
+      estimateGasPrice.mockRestore();
+    });
+
+    it('waits for confirmation and emits the transaction lifecycle', async () => {
+      const { wallet } = renderProvider({ wallets: [petra], onError: jest.fn() });
+      await connectWallet(wallet, 'Petra');
+      const committed = { hash: '0xabc', success: true, vm_status: 'Executed successfully' };
+      const waitForTransaction = jest
+        .spyOn(petra, 'waitForTransaction')
+        .mockResolvedValue(committed as UserTransaction);
+      const submitted = jest.fn();
+      const confirmed = jest.fn();
+      const failed = jest.fn();
+      wallet().transactionEvents.on('transactionSubmitted', submitted);
+      wallet().transactionEvents.on('transactionConfirmed', confirmed);
+      wallet().transactionEvents.on('transactionFailed', failed);
+
+      await act(async () => {
+        await expect(wallet().signAndSubmitTransaction(TRANSFER)).resolves.toEqual({
+          hash: '0xabc'
+        });
+      });
+      expect(waitForTransaction).not.toHaveBeenCalled();
+      await act(async () => {
+        await expect(
+          wallet().signAndSubmitTransaction(TRANSFER, {
+            waitForConfirmation: true,
+            confirmationTimeout: 5000
+          })
+        ).resolves.toBe(committed);
+      });
+      expect(waitForTransaction).toHaveBeenCalledWith('0xabc', 5000);
+      const event = { hash: '0xabc', walletName: 'Petra', payload: TRANSFER };
+      expect(submitted.mock.calls).toEqual([[event], [event]]);
+      expect(confirmed).toHaveBeenCalledWith({ ...event, transaction: committed });
+
+      const error = new WalletTransactionFailedError('Out of gas', {
+        ...committed,
+        success: false,
+        vm_status: 'Out of gas'
+      });
+      waitForTransaction.mockRejectedValue(error);
+      await act(async () => {
+        await expect(
+          wallet().signAndSubmitTransaction(TRANSFER, { waitForConfirmation: true })
+        ).rejects.toMatchObject({ vmStatus: 'Out of gas', hash: '0xabc' });
+      });
+      expect(failed).toHaveBeenCalledWith({ ...event, error });
+    });
+  });
+
+  describe('features', () => {
+    it('reports what the selected wallet supports', async () => {
+      petra.featureOverrides = { signTransaction: false };
+      const { wallet } = renderProvider({ wallets: [petra] });
+      expect(wallet().supports('signMessage')).toBe(false);
+
+      await connectWallet(wallet, 'Petra');
+      expect(wallet().supports('signMessage')).toBe(true);
+      expect(wallet().supports('signTransaction')).toBe(false);
+      expect(wallet().supports('transactionOptions')).toBe(false);
+    });
+
+    it('rejects calls relying on a missing feature without reaching the wallet', async () => {
+      petra.featureOverrides = { signTransaction: false, structuredMessages: false };
+      const onError = jest.fn();
+      const { wallet } = renderProvider({ wallets: [petra], onError });
+      await connectWallet(wallet, 'Petra');
+      const signTransaction = jest.spyOn(petra, 'signTransaction');
+      const signMessage = jest.spyOn(petra, 'signMessage');
+
+      await expect(wallet().signTransaction(TRANSFER)).rejects.toMatchObject({
+        name: 'WalletMethodNotSupportedError',
+        code: WalletErrorCode.Unsupported,
+        message: 'Petra does not support signTransaction',
+        walletName: 'Petra',
+        operation: 'signTransaction'
+      });
+      await expect(wallet().signMessage({ message: 'Hello', nonce: '1' })).rejects.toMatchObject({
+        message: 'Petra does not support structured messages'
+      });
+      await expect(wallet().signMessage('Hello')).resolves.toBe('signed:Hello');
+      expect(signTransaction).not.toHaveBeenCalled();
+      expect(signMessage).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(WalletMethodNotSupportedError);
+    });
+
+    it('rejects transaction options the wallet would drop before simulating', async () => {
+      petra.supportedTransactionOptions = ['gas_unit_price'];
+      const { wallet } = renderProvider({ wallets: [petra], onError: jest.fn() });
+      await connectWallet(wallet, 'Petra');
+      const simulateTransaction = jest.spyOn(petra, 'simulateTransaction');
+      const signAndSubmitTransaction = jest.spyOn(petra, 'signAndSubmitTransaction');
+
+      await expect(
+        wallet().signAndSubmitTransaction(TRANSFER, {
+          simulateFirst: true,
+          gas_unit_price: '100',
+          max_gas_amount: '500',
+          sequence_number: '7'
+        })
+      ).rejects.toMatchObject({
+        message: 'Petra does not support the transaction options: max_gas_amount, sequence_number',
+        operation: 'signAndSubmitTransaction'
+      });
+      expect(simulateTransaction).not.toHaveBeenCalled();
+      expect(signAndSubmitTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transaction history', () => {
+    const PENDING: TrackedTransaction = {
+      hash: '0xdef',
+      walletName: 'Petra' as WalletName,
+      account: '0x1',
+      network: WalletAdapterNetwork.Devnet,
+      payload: { type: 'entry_function_payload', function: '0x1::coin::transfer' },
+      status: 'pending',
+      submittedAt: 1
+    };
+
+    it('records sent transactions and follows them until they settle', async () => {
+      let commit: (transaction: any) => void = () => {};
+      waitForTransactionWithResult.mockReturnValue(
+        new Promise((resolve) => {
+          commit = resolve;
+        })
+      );
+      const { wallet, transactions } = renderProvider({ wallets: [petra] });
+      await connectWallet(wallet, 'Petra');
+
+      await act(async () => {
+        await wallet().signAndSubmitTransaction(TRANSFER);
+      });
+      expect(transactions().transactions).toEqual([
+        {
+          hash: '0xabc',
+          walletName: 'Petra',
+          account: '0x1',
+          network: WalletAdapterNetwork.Devnet,
+          nodeUrl: petra.nodeUrl,
+          payload: {
+            type: 'entry_function_payload',
+            function: '0x1::coin::transfer',
+            typeArguments: ['0x1::aptos_coin::AptosCoin']
+          },
+          status: 'pending',
+          submittedAt: expect.any(Number)
+        }
+      ]);
+      expect(waitForTransactionWithResult).toHaveBeenCalledWith('0xabc', { timeoutSecs: 30 });
+
+      await act(async () => {
+        commit({ hash: '0xabc', success: true, vm_status: 'Executed successfully' });
+      });
+      expect(transactions().transactions[0]).toMatchObject({
+        status: 'confirmed',
+        vmStatus: 'Executed successfully',
+        settledAt: expect.any(Number)
+      });
+      expect(JSON.parse(localStorage.getItem('walletName:transactions')!)).toEqual(
+        transactions().transactions
+      );
+      expect(JSON.parse(transactions().exportTransactions())).toEqual(transactions().transactions);
+    });
+
+    it('resumes polling the transactions left pending before a reload', async () => {
+      localStorage.setItem('walletName:transactions', JSON.stringify([PENDING]));
+      waitForTransactionWithResult.mockResolvedValue({
+        hash: '0xdef',
+        success: false,
+        vm_status: 'Out of gas'
+      });
+
+      const { transactions } = renderProvider({ wallets: [petra] });
+      await act(async () => {});
+
+      expect(waitForTransactionWithResult).toHaveBeenCalledWith('0xdef', { timeoutSecs: 30 });
+      expect(transactions().transactions).toEqual([
+        { ...PENDING, status: 'failed', vmStatus: 'Out of gas', settledAt: expect.any(Number) }
+      ]);
+
+      act(() => transactions().clearTransactions());
+      expect(transactions().transactions).toEqual([]);
+    });
+
+    it('polls the node the wallet submitted to, failing only what the node turned down', async () => {
+      const polledNodes: string[] = [];
+      waitForTransactionWithResult.mockImplementation(async function (this: AptosClient) {
+        polledNodes.push(this.client.request.config.BASE);
+        throw new WaitForTransactionError('Waiting for transaction 0xabc timed out!', undefined);
+      });
+      jest.spyOn(petra, 'nodeUrl', 'get').mockReturnValue('http://127.0.0.1:8080');
+      const { wallet, transactions } = renderProvider({ wallets: [petra] });
+      await connectWallet(wallet, 'Petra');
+
+      await act(async () => {
+        await wallet().signAndSubmitTransaction(TRANSFER);
+      });
+      expect(polledNodes).toEqual(['http://127.0.0.1:8080/v1']);
+      expect(transactions().transactions[0]).toMatchObject({
+        nodeUrl: 'http://127.0.0.1:8080',
+        status: 'pending'
+      });
+
+      waitForTransactionWithResult.mockRejectedValue(
+        Object.assign(new Error('Invalid transaction hash'), { status: 400 })
+      );
+      jest.spyOn(petra, 'signAndSubmitTransaction').mockResolvedValue({ hash: '0xdef' });
+      await act(async () => {
+        await wallet().signAndSubmitTransaction(TRANSFER);
+      });
+      expect(transactions().transactions.map(({ status }) => status)).toEqual([
+        'failed',
+        'pending'
+      ]);
+      expect(transactions().transactions[0]).toMatchObject({
+        hash: '0xdef',
+        status: 'failed',
+        error: 'Invalid transaction hash'
+      });
+    });
+
+    it('settles transactions that were waited for without polling them', async () => {
+      const { wallet, transactions } = renderProvider({ wallets: [petra], onError: jest.fn() });
+      await connectWallet(wallet, 'Petra');
+      jest
+        .spyOn(petra, 'waitForTransaction')
+        .mockRejectedValue(
+          new WalletTransactionFailedError('Out of gas', { hash: '0xabc', vm_status: 'Out of gas' })
+        );
+
+      await act(async () => {
+        await expect(
+          wallet().signAndSubmitTransaction(TRANSFER, { waitForConfirmation: true })
+        ).rejects.toBeInstanceOf(WalletTransactionFailedError);
+      });
+      expect(waitForTransactionWithResult).not.toHaveBeenCalled();
+      expect(transactions().transactions[0]).toMatchObject({
+        hash: '0xabc',
+        status: 'failed',
+        vmStatus: 'Out of gas'
+      });
+    });
+  });
+});
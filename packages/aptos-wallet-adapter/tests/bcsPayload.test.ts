@@ -0,0 +1,156 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { AptosClient, BCS, HexString, TxnBuilderTypes } from 'aptos';
+import type { MoveFunctionVisibility, MoveModule, PendingTransaction } from 'aptos/src/generated';
+import { AptosWalletAdapter } from '../src/WalletAdapters/AptosWallet';
+import { LocalAccountWalletAdapter } from '../src/WalletAdapters/LocalAccountWallet';
+import { bcsPayloadToJson, isBcsPayload } from '../src/utilities/bcsPayload';
+
+declare const window: Window & { aptos?: Record<string, unknown> };
+
+// jsdom leaves these out, the SDK needs them to serialize identifiers
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+const { AccountAddress, EntryFunction, TransactionPayloadEntryFunction } = TxnBuilderTypes;
+
+const EXAMPLE_MODULE: MoveModule = {
+  address: '0x1',
+  name: 'example',
+  friends: [],
+  structs: [],
+  exposed_functions: [
+    {
+      name: 'call',
+      visibility: 'public' as MoveFunctionVisibility,
+      is_entry: true,
+      generic_type_params: [{ constraints: [] }],
+      params: ['&signer', 'address', 'u64', 'vector<u8>', '0x1::string::String', 'vector<T0>'],
+      return: []
+    }
+  ]
+};
+
+const serializeVector = (values: number[]) => {
+  const serializer = new BCS.Serializer();
+  serializer.serializeU32AsUleb128(values.length);
+  values.forEach((value) => serializer.serializeU64(value));
+  return serializer.getBytes();
+};
+
+const examplePayload = () =>
+  new TransactionPayloadEntryFunction(
+    EntryFunction.natural(
+      '0x1::example',
+      'call',
+      [new TxnBuilderTypes.TypeTagU64()],
+      [
+        BCS.bcsToBytes(AccountAddress.fromHex('0x2')),
+        BCS.bcsSerializeUint64(717),
+        BCS.bcsSerializeBytes(Uint8Array.of(1, 2)),
+        BCS.bcsSerializeStr('hello'),
+        serializeVector([3, 4])
+      ]
+    )
+  );
+
+describe('BCS payloads', () => {
+  afterEach(() => {
+    delete window.aptos;
+    jest.restoreAllMocks();
+  });
+
+  it('tells BCS payloads from JSON ones', () => {
+    expect(isBcsPayload(examplePayload())).toBe(true);
+    expect(isBcsPayload({ type: 'entry_function_payload', arguments: [] })).toBe(false);
+  });
+
+  it('decodes entry function arguments with the parameter types', () => {
+    const payload = bcsPayloadToJson(examplePayload(), [
+      'address',
+      'u64',
+      'vector<u8>',
+      '0x1::string::String',
+      'vector<T0>'
+    ]) as any;
+
+    expect(payload.type).toBe('entry_function_payload');
+    expect(payload.function).toBe('0x1::example::call');
+    expect(payload.type_arguments).toEqual(['u64']);
+    expect(payload.arguments.slice(0, 2)).toEqual(['0x2', BigInt(717)]);
+    expect(Array.from(payload.arguments[2])).toEqual([1, 2]);
+    expect(payload.arguments.slice(3)).toEqual(['hello', [BigInt(3), BigInt(4)]]);
+  });
+
+  it('refuses to guess entry function arguments without the parameter types', () => {
+    expect(() => bcsPayloadToJson(examplePayload())).toThrow(
+      'Unknown parameter types for 0x1::example::call'
+    );
+  });
+
+  it('converts script payloads', () => {
+    const script = new TxnBuilderTypes.TransactionPayloadScript(
+      new TxnBuilderTypes.Script(
+        Uint8Array.of(0xa1, 0x1c),
+        [],
+        [
+          new TxnBuilderTypes.TransactionArgumentU64(BigInt(5)),
+          new TxnBuilderTypes.TransactionArgumentAddress(AccountAddress.fromHex('0x3'))
+        ]
+      )
+    );
+
+    expect(bcsPayloadToJson(script)).toEqual({
+      type: 'script_payload',
+      code: { bytecode: '0xa11c' },
+      type_arguments: [],
+      arguments: [BigInt(5), '0x3']
+    });
+  });
+
+  it('hands JSON wallets the converted payload', async () => {
+    const signAndSubmitTransaction = jest.fn().mockResolvedValue({ hash: '0xabc' });
+    window.aptos = {
+      isConnected: async () => false,
+      connect: async () => ({ address: '0x1', publicKey: '0x1234' }),
+      signAndSubmitTransaction
+    };
+    const adapter = new AptosWalletAdapter();
+    adapter.addModuleAbi(EXAMPLE_MODULE);
+    await adapter.connect();
+
+    await expect(adapter.signAndSubmitTransaction(examplePayload())).resolves.toEqual({
+      hash: '0xabc'
+    });
+    expect(signAndSubmitTransaction.mock.calls[0][0]).toEqual({
+      type: 'entry_function_payload',
+      function: '0x1::example::call',
+      type_arguments: ['u64'],
+      arguments: ['0x2', '717', '0x0102', 'hello', ['3', '4']]
+    });
+  });
+
+  it('passes BCS payloads through to wallets that sign them', async () => {
+    const adapter = new LocalAccountWalletAdapter({
+      privateKey: new HexString('0x' + '11'.repeat(32))
+    });
+    const rawTxn = { sender: '0x1' } as unknown as TxnBuilderTypes.RawTransaction;
+    const generateRawTransaction = jest
+      .spyOn(AptosClient.prototype, 'generateRawTransaction')
+      .mockResolvedValue(rawTxn);
+    const signTransaction = jest
+      .spyOn(AptosClient.prototype, 'signTransaction')
+      .mockResolvedValue(Uint8Array.of(9));
+    jest
+      .spyOn(AptosClient.prototype, 'submitSignedBCSTransaction')
+      .mockResolvedValue({ hash: '0xdef' } as PendingTransaction);
+    await adapter.connect();
+
+    const payload = examplePayload();
+    await expect(
+      adapter.signAndSubmitTransaction(payload, { max_gas_amount: '2000' })
+    ).resolves.toEqual({ hash: '0xdef' });
+    expect(generateRawTransaction).toHaveBeenCalledWith(expect.anything(), payload, {
+      maxGasAmount: BigInt(2000)
+    });
+    expect(signTransaction).toHaveBeenCalledWith(expect.anything(), rawTxn);
+  });
+});
@@ -0,0 +1,97 @@
+import { WalletReadyState } from '../src/WalletAdapters/BaseAdapter';
+import { AptosWalletAdapter } from '../src/WalletAdapters/AptosWallet';
+import { MartianWalletAdapter } from '../src/WalletAdapters/MartianWallet';
+import { isMobile, takeDeepLinkedWallet } from '../src/utilities/deepLink';
+
+const IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1';
+const MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Safari/605.1.15';
+
+const ACCOUNT = { address: '0x1', publicKey: '0x1234', authKey: '0x5678' };
+
+describe('deep links', () => {
+  const useDevice = (userAgent: string, maxTouchPoints = 0) => {
+    jest.spyOn(window.navigator, 'userAgent', 'get').mockReturnValue(userAgent);
+    // Not implemented by jsdom
+    Object.defineProperty(window.navigator, 'maxTouchPoints', {
+      value: maxTouchPoints,
+      configurable: true
+    });
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (window as any).navigator.maxTouchPoints;
+    delete (window as any).aptos;
+  });
+
+  it('tells phones and tablets from desktops', () => {
+    useDevice(IPHONE);
+    expect(isMobile()).toBe(true);
+    useDevice(MAC);
+    expect(isMobile()).toBe(false);
+    // iPadOS
+    useDevice(MAC, 5);
+    expect(isMobile()).toBe(true);
+  });
+
+  it('makes extension wallets loadable on mobile only through a deep link', () => {
+    useDevice(IPHONE);
+    expect(new AptosWalletAdapter().readyState).toBe(WalletReadyState.Loadable);
+    expect(new MartianWalletAdapter().readyState).toBe(WalletReadyState.Unsupported);
+    expect(
+      new MartianWalletAdapter({ deepLink: 'https://martian.app/browse?url={url}' }).readyState
+    ).toBe(WalletReadyState.Loadable);
+
+    useDevice(MAC);
+    expect(new AptosWalletAdapter().readyState).toBe(WalletReadyState.NotDetected);
+  });
+
+  it('detects the wallet in its in-app browser', () => {
+    useDevice(IPHONE);
+    (window as any).aptos = {};
+    expect(new MartianWalletAdapter().readyState).toBe(WalletReadyState.Unsupported);
+    expect(new AptosWalletAdapter().readyState).toBe(WalletReadyState.Installed);
+  });
+
+  it('reopens the dApp in the in-app browser instead of connecting', async () => {
+    useDevice(IPHONE);
+    const assign = jest.fn();
+    jest.spyOn(window, 'location', 'get').mockReturnValue({
+      href: 'https://dapp.xyz/swap?pair=APT',
+      origin: 'https://dapp.xyz',
+      assign
+    } as any);
+    const adapter = new AptosWalletAdapter();
+
+    await adapter.connect();
+    expect(assign).toHaveBeenCalledWith(
+      `https://petra.app/explore?link=${encodeURIComponent(
+        'https://dapp.xyz/swap?pair=APT&aptosWallet=Petra'
+      )}`
+    );
+    expect(adapter.connected).toBe(false);
+  });
+
+  it('connects right away once the wallet is injected', async () => {
+    useDevice(IPHONE);
+    const location = jest.spyOn(window, 'location', 'get');
+    (window as any).aptos = { isConnected: async () => false, connect: async () => ACCOUNT };
+    const adapter = new AptosWalletAdapter();
+
+    await adapter.connect();
+    expect(adapter.connected).toBe(true);
+    expect(location).not.toHaveBeenCalled();
+  });
+
+  it('reads the wallet the page was reopened for once, leaving the rest of the URL', () => {
+    window.history.replaceState(null, '', '/swap?pair=APT&aptosWallet=Petra#top');
+
+    expect(takeDeepLinkedWallet()).toBe('Petra');
+    expect(window.location.pathname + window.location.search + window.location.hash).toBe(
+      '/swap?pair=APT#top'
+    );
+    expect(takeDeepLinkedWallet()).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { AptosClient, HexString } from 'aptos';
+import type { MoveFunctionVisibility, MoveModule } from 'aptos/src/generated';
+import { AptosWalletAdapter } from '../src/WalletAdapters/AptosWallet';
+import {
+  BCS_ARGUMENT_ENCODING,
+  coerceEntryFunctionArguments,
+  EntryFunctionAbiCache,
+  JSON_ARGUMENT_ENCODING,
+  needsArgumentTypes
+} from '../src/utilities/entryFunctionArguments';
+import { WalletArgumentError } from '../src/WalletProviders/errors';
+
+declare const window: Window & { aptos?: Record<string, unknown> };
+
+const EXAMPLE_MODULE: MoveModule = {
+  address: '0x1',
+  name: 'example',
+  friends: [],
+  structs: [],
+  exposed_functions: [
+    {
+      name: 'call',
+      visibility: 'public' as MoveFunctionVisibility,
+      is_entry: true,
+      generic_type_params: [],
+      params: ['&signer', 'address', 'u64', 'u8', 'bool', 'vector<u8>', 'vector<u128>'],
+      return: []
+    }
+  ]
+};
+
+const PARAMS = ['address', 'u64', 'u8', 'bool', 'vector<u8>', 'vector<u128>'];
+
+const ARGS = [new HexString('0x2'), 717, '3', 'true', Uint8Array.of(1, 2), [BigInt(1), '2']];
+
+describe('entry function arguments', () => {
+  it('coerces canonical arguments to the JSON API encoding', () => {
+    expect(coerceEntryFunctionArguments(ARGS, PARAMS, JSON_ARGUMENT_ENCODING)).toEqual([
+      '0x2',
+      '717',
+      3,
+      true,
+      '0x0102',
+      ['1', '2']
+    ]);
+  });
+
+  it('coerces canonical arguments to the BCS builder encoding', () => {
+    expect(
+      coerceEntryFunctionArguments(
+        ['0x2', '717', 3, false, '0x0102', [1, 2]],
+        PARAMS,
+        BCS_ARGUMENT_ENCODING
+      )
+    ).toEqual(['0x2', BigInt(717), 3, false, Uint8Array.of(1, 2), [BigInt(1), BigInt(2)]]);
+  });
+
+  it('only converts by value without the parameter types', () => {
+    expect(
+      coerceEntryFunctionArguments([BigInt(5), 5, Uint8Array.of(255)], undefined, {
+        integers: 'number',
+        bytes: 'array'
+      })
+    ).toEqual([5, 5, [255]]);
+  });
+
+  it('refuses integers a number would round', () => {
+    const numbers = { integers: 'number' as const, bytes: 'hex' as const };
+    const maxU64 = BigInt(2) ** BigInt(64) - BigInt(1);
+
+    expect(() => coerceEntryFunctionArguments([maxU64], ['u64'], numbers)).toThrow(
+      WalletArgumentError
+    );
+    expect(() => coerceEntryFunctionArguments([maxU64.toString()], ['u128'], numbers)).toThrow(
+      WalletArgumentError
+    );
+    expect(() => coerceEntryFunctionArguments([maxU64], undefined, numbers)).toThrow(
+      WalletArgumentError
+    );
+    expect(
+      coerceEntryFunctionArguments([String(Number.MAX_SAFE_INTEGER)], ['u64'], numbers)
+    ).toEqual([Number.MAX_SAFE_INTEGER]);
+    expect(coerceEntryFunctionArguments([maxU64], ['u64'], JSON_ARGUMENT_ENCODING)).toEqual([
+      '18446744073709551615'
+    ]);
+  });
+
+  it('asks for the types only when values are ambiguous', () => {
+    expect(needsArgumentTypes(['0x2', '717'], JSON_ARGUMENT_ENCODING)).toBe(false);
+    expect(needsArgumentTypes(['0x2', 717], JSON_ARGUMENT_ENCODING)).toBe(true);
+    expect(needsArgumentTypes(['0x2', 717], { integers: 'number', bytes: 'hex' })).toBe(false);
+    expect(needsArgumentTypes(['0x02'], BCS_ARGUMENT_ENCODING)).toBe(true);
+  });
+
+  it('fetches a module ABI once and retries after a failure', async () => {
+    const client = new AptosClient('http://127.0.0.1:8080');
+    const getAccountModule = jest
+      .spyOn(client, 'getAccountModule')
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValue({ bytecode: '0x', abi: EXAMPLE_MODULE });
+    const cache = new EntryFunctionAbiCache();
+
+    await expect(cache.getParams(client, '0x1::example::call')).resolves.toBeUndefined();
+    await expect(cache.getParams(client, '0x1::example::call')).resolves.toEqual(PARAMS);
+    await expect(cache.getParams(client, '0x01::example::missing')).resolves.toBeUndefined();
+    expect(getAccountModule).toHaveBeenCalledTimes(2);
+  });
+
+  it('hands coerced arguments to the wallet', async () => {
+    const signAndSubmitTransaction = jest.fn().mockResolvedValue({ hash: '0xabc' });
+    window.aptos = {
+      isConnected: async () => false,
+      connect: async () => ({ address: '0x1', publicKey: '0x1234' }),
+      signAndSubmitTransaction
+    };
+    const adapter = new AptosWalletAdapter();
+    adapter.addModuleAbi(EXAMPLE_MODULE);
+    await adapter.connect();
+
+    await adapter.signAndSubmitTransaction({
+      type: 'entry_function_payload',
+      function: '0x1::example::call',
+      type_arguments: [],
+      arguments: ARGS
+    });
+    expect(signAndSubmitTransaction.mock.calls[0][0].arguments).toEqual([
+      '0x2',
+      '717',
+      3,
+      true,
+      '0x0102',
+      ['1', '2']
+    ]);
+    delete window.aptos;
+  });
+});
@@ -0,0 +1,147 @@
+import { RelayFrame, WebSocketRelayTransport } from '../src/utilities/relayTransport';
+
+/** Stands in for the browser's WebSocket, the test plays the relay server */
+class FakeSocket {
+  static OPEN = 1;
+
+  static sockets: FakeSocket[] = [];
+
+  readyState = 0;
+
+  sent: RelayFrame[] = [];
+
+  onopen: (() => void) | null = null;
+
+  onerror: (() => void) | null = null;
+
+  onclose: (() => void) | null = null;
+
+  onmessage: ((event: { data: string }) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.sockets.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.drop();
+  }
+
+  accept() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  fail() {
+    this.onerror?.();
+    this.drop();
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  receive(data: string) {
+    this.onmessage?.({ data });
+  }
+}
+
+describe('WebSocketRelayTransport', () => {
+  const { WebSocket } = globalThis;
+
+  beforeEach(() => {
+    FakeSocket.sockets = [];
+    Object.assign(globalThis, { WebSocket: FakeSocket });
+  });
+
+  afterEach(() => {
+    Object.assign(globalThis, { WebSocket });
+  });
+
+  // Lets the failed attempt settle, timers being faked
+  const flush = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+  const open = async (onError?: (error: Error) => void) => {
+    const transport = new WebSocketRelayTransport('wss://relay.example.com');
+    const onMessage = jest.fn();
+    const opening = transport.open('topic', onMessage, onError);
+    FakeSocket.sockets[0]!.accept();
+    await opening;
+    return { transport, onMessage, socket: FakeSocket.sockets[0]! };
+  };
+
+  it('subscribes to the topic and passes its messages on', async () => {
+    const { transport, onMessage, socket } = await open();
+
+    await transport.publish('sealed');
+    socket.receive(JSON.stringify({ type: 'message', topic: 'other', message: 'theirs' }));
+    socket.receive(JSON.stringify({ type: 'message', topic: 'topic', message: 'ours' }));
+
+    expect(socket.sent).toEqual([
+      { type: 'subscribe', topic: 'topic' },
+      { type: 'publish', topic: 'topic', message: 'sealed' }
+    ]);
+    expect(onMessage.mock.calls).toEqual([['ours']]);
+  });
+
+  describe('after the socket dropped', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('reopens it and subscribes to the topic again, backing off while that fails', async () => {
+      const onError = jest.fn();
+      const { onMessage, socket } = await open(onError);
+
+      socket.drop();
+      jest.advanceTimersByTime(1000);
+      expect(FakeSocket.sockets).toHaveLength(2);
+      FakeSocket.sockets[1]!.fail();
+      await flush();
+      expect(onError.mock.calls[0][0].message).toBe(
+        'Could not reach the relay at wss://relay.example.com'
+      );
+
+      jest.advanceTimersByTime(1999);
+      expect(FakeSocket.sockets).toHaveLength(2);
+      jest.advanceTimersByTime(1);
+      const reopened = FakeSocket.sockets[2]!;
+      reopened.accept();
+      reopened.receive(JSON.stringify({ type: 'message', topic: 'topic', message: 'ours' }));
+
+      expect(reopened.sent).toEqual([{ type: 'subscribe', topic: 'topic' }]);
+      expect(onMessage).toHaveBeenCalledWith('ours');
+    });
+
+    it('leaves it closed once the transport is closed', async () => {
+      const { transport, socket } = await open();
+
+      socket.drop();
+      transport.close();
+      jest.runAllTimers();
+
+      expect(FakeSocket.sockets).toHaveLength(1);
+    });
+  });
+
+  it('reports frames that are not JSON', async () => {
+    const onError = jest.fn();
+    const { onMessage, socket } = await open(onError);
+
+    socket.receive('not even json');
+
+    expect(onMessage).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toMatch(
+      /^Malformed frame from the relay at wss:\/\/relay\.example\.com: /
+    );
+  });
+});
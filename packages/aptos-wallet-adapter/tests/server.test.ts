@@ -0,0 +1,223 @@
+/**
+ * @jest-environment node
+ */
+import { AptosAccount, AptosClient, HexString } from 'aptos';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import {
+  AptosSessionRequest,
+  authKeyFromPublicKey,
+  createSessionToken,
+  issueNonce,
+  MemoryNonceStore,
+  readSessionToken,
+  SignInRequest,
+  SignInVerificationError,
+  verifySignIn,
+  withAptosSession
+} from '../src/server';
+import { createSignInMessage, SignInMessage } from '../src/utilities/signInMessage';
+
+const SECRET = 'a-very-long-secret-for-the-session-cookie';
+
+describe('server', () => {
+  let nonceStore: MemoryNonceStore;
+  const account = new AptosAccount();
+
+  const signInRequest = (
+    nonce: string,
+    fields: Partial<SignInMessage> = {},
+    signer = account
+  ): SignInRequest => {
+    const message = createSignInMessage({
+      domain: 'app.example.com',
+      address: account.address().hex(),
+      uri: 'https://app.example.com',
+      version: '1',
+      chainId: 2,
+      nonce,
+      issuedAt: new Date().toISOString(),
+      ...fields
+    });
+    return {
+      message,
+      signature: signer.signBuffer(new TextEncoder().encode(message)).hex(),
+      publicKey: signer.pubKey().hex()
+    };
+  };
+
+  beforeEach(() => {
+    nonceStore = new MemoryNonceStore();
+  });
+
+  describe('verifySignIn', () => {
+    it('accepts a valid sign in once per nonce', async () => {
+      const nonce = await issueNonce(nonceStore);
+      const request = signInRequest(nonce);
+
+      const fields = await verifySignIn(request, {
+        nonceStore,
+        domain: 'app.example.com',
+        chainId: 2
+      });
+      expect(fields.address).toBe(account.address().hex());
+
+      await expect(verifySignIn(request, { nonceStore })).rejects.toThrow('already used nonce');
+    });
+
+    it('rejects nonces it did not issue or that expired', async () => {
+      await expect(verifySignIn(signInRequest('abcdefgh1234'), { nonceStore })).rejects.toThrow(
+        SignInVerificationError
+      );
+
+      const expired = await issueNonce(nonceStore, -1);
+      await expect(verifySignIn(signInRequest(expired), { nonceStore })).rejects.toThrow(
+        'already used nonce'
+      );
+    });
+
+    it.each([
+      ['another domain', { domain: 'evil.example.com' }, 'expected app.example.com'],
+      ['another chain', { chainId: 1 }, 'expected 2'],
+      ['an expired message', { expirationTime: '2022-01-01T00:00:00.000Z' }, 'expired']
+    ])('rejects %s', async (_, fields, error) => {
+      const nonce = await issueNonce(nonceStore);
+      await expect(
+        verifySignIn(signInRequest(nonce, fields), {
+          nonceStore,
+          domain: 'app.example.com',
+          chainId: 2
+        })
+      ).rejects.toThrow(error);
+    });
+
+    it('rejects a key that does not control the address', async () => {
+      const nonce = await issueNonce(nonceStore);
+      const request = signInRequest(nonce, {}, new AptosAccount());
+
+      await expect(verifySignIn(request, { nonceStore })).rejects.toThrow(
+        'does not control the address'
+      );
+      // The nonce is still usable by the real owner
+      await expect(verifySignIn(signInRequest(nonce), { nonceStore })).resolves.toBeTruthy();
+    });
+
+    it('checks the on-chain authentication key of rotated accounts', async () => {
+      const rotatedKey = new AptosAccount();
+      const client = new AptosClient('http://127.0.0.1:8080');
+      jest.spyOn(client, 'getAccount').mockResolvedValue({
+        sequence_number: '1',
+        authentication_key: authKeyFromPublicKey(rotatedKey.pubKey())
+      });
+
+      const nonce = await issueNonce(nonceStore);
+      await expect(verifySignIn(signInRequest(nonce), { nonceStore, client })).rejects.toThrow(
+        'does not control the address'
+      );
+      await expect(
+        verifySignIn(signInRequest(nonce, {}, rotatedKey), { nonceStore, client })
+      ).resolves.toBeTruthy();
+    });
+
+    it('fails verification when the account cannot be looked up', async () => {
+      const client = new AptosClient('http://127.0.0.1:8080');
+      const cause = new Error('connect ECONNREFUSED 127.0.0.1:8080');
+      jest.spyOn(client, 'getAccount').mockRejectedValue(cause);
+
+      const nonce = await issueNonce(nonceStore);
+      const error = await verifySignIn(signInRequest(nonce), { nonceStore, client }).catch(
+        (e) => e
+      );
+      expect(error).toBeInstanceOf(SignInVerificationError);
+      expect(error.error).toBe(cause);
+    });
+  });
+
+  describe('session token', () => {
+    const session = {
+      address: '0x1',
+      publicKey: '0x1234',
+      chainId: 2,
+      issuedAt: Date.now(),
+      expiresAt: Date.now() + 60000
+    };
+
+    it('reads back what it signed', () => {
+      expect(readSessionToken(createSessionToken(session, SECRET), SECRET)).toEqual(session);
+    });
+
+    it('rejects tampered, foreign and expired tokens', () => {
+      const [, signature] = createSessionToken(session, SECRET).split('.');
+      const forged = Buffer.from(JSON.stringify({ ...session, address: '0x2' })).toString(
+        'base64url'
+      );
+      expect(readSessionToken(`${forged}.${signature}`, SECRET)).toBeNull();
+      expect(readSessionToken(createSessionToken(session, `${SECRET}!`), SECRET)).toBeNull();
+      expect(
+        readSessionToken(
+          createSessionToken({ ...session, expiresAt: Date.now() - 1 }, SECRET),
+          SECRET
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('withAptosSession', () => {
+    const call = async (
+      handler: (req: AptosSessionRequest, res: ServerResponse) => unknown,
+      { cookie, required }: { cookie?: string; required?: boolean } = {}
+    ) => {
+      const req = new IncomingMessage(new Socket());
+      if (cookie) req.headers.cookie = cookie;
+      const res = new ServerResponse(req);
+      let body = '';
+      res.end = ((chunk: string) => {
+        body = chunk;
+        return res;
+      }) as any;
+      await withAptosSession(handler, { secret: SECRET, nonceStore, required })(req, res);
+      return { res, body, cookies: (res.getHeader('Set-Cookie') as string[]) || [] };
+    };
+
+    it('signs in and reads the session back from the cookie', async () => {
+      const nonce = await issueNonce(nonceStore);
+      const { cookies } = await call((req) => req.aptos.signIn(signInRequest(nonce)));
+      expect(cookies[0]).toMatch(/^aptos_session=[^;]+; Path=\/; HttpOnly; SameSite=Lax/);
+
+      let session;
+      await call(
+        (req) => {
+          session = req.aptos.session;
+        },
+        { cookie: `other=1; ${cookies[0].split(';')[0]}` }
+      );
+      expect(session).toMatchObject({
+        address: account.address().hex(),
+        publicKey: HexString.ensure(account.pubKey()).hex(),
+        chainId: 2
+      });
+    });
+
+    it('answers 401 when signing in fails or a session is required', async () => {
+      const failed = await call((req) => req.aptos.signIn(signInRequest('abcdefgh1234')));
+      expect(failed.res.statusCode).toBe(401);
+      expect(JSON.parse(failed.body).error).toMatch('nonce');
+
+      const handler = jest.fn();
+      const anonymous = await call(handler, { required: true, cookie: 'aptos_session=forged' });
+      expect(anonymous.res.statusCode).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('clears the cookie on sign out', async () => {
+      const { cookies } = await call((req) => req.aptos.signOut());
+      expect(cookies[0]).toMatch(/^aptos_session=; .*Max-Age=0/);
+    });
+
+    it('refuses a short secret', () => {
+      expect(() => withAptosSession(jest.fn(), { secret: 'short', nonceStore })).toThrow(
+        'at least 32 characters'
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  createSignInMessage,
+  parseSignInMessage,
+  SignInMessage
+} from '../src/utilities/signInMessage';
+import { SignInMessageError } from '../src/WalletProviders/errors';
+
+const FIELDS: SignInMessage = {
+  domain: 'app.example.com',
+  address: '0x1a2b',
+  statement: 'Sign in to Example',
+  uri: 'https://app.example.com/login',
+  version: '1',
+  chainId: 2,
+  nonce: 'abcd1234',
+  issuedAt: '2022-10-01T12:00:00.000Z',
+  expirationTime: '2022-10-01T12:05:00.000Z',
+  resources: ['https://app.example.com/terms', 'ipfs://bafybeigdyrzt']
+};
+
+const MESSAGE = `app.example.com wants you to sign in with your Aptos account:
+0x1a2b
+
+Sign in to Example
+
+URI: https://app.example.com/login
+Version: 1
+Chain ID: 2
+Nonce: abcd1234
+Issued At: 2022-10-01T12:00:00.000Z
+Expiration Time: 2022-10-01T12:05:00.000Z
+Resources:
+- https://app.example.com/terms
+- ipfs://bafybeigdyrzt`;
+
+describe('Sign-In with Aptos message', () => {
+  it('builds the EIP-4361 style text', () => {
+    expect(createSignInMessage(FIELDS)).toBe(MESSAGE);
+  });
+
+  it('parses what it builds', () => {
+    expect(parseSignInMessage(MESSAGE)).toEqual(FIELDS);
+
+    const minimal: SignInMessage = {
+      domain: 'localhost:3000',
+      address: '0x1',
+      uri: 'http://localhost:3000',
+      version: '1',
+      chainId: 4,
+      nonce: 'ABCDEFGH',
+      issuedAt: '2022-10-01T12:00:00+02:00'
+    };
+    expect(parseSignInMessage(createSignInMessage(minimal))).toEqual(minimal);
+  });
+
+  it('refuses to build a message with invalid fields', () => {
+    expect(() => createSignInMessage({ ...FIELDS, domain: 'https://app.example.com' })).toThrow(
+      'Invalid domain'
+    );
+    expect(() => createSignInMessage({ ...FIELDS, nonce: 'short' })).toThrow('Invalid nonce');
+    expect(() => createSignInMessage({ ...FIELDS, statement: 'two\nlines' })).toThrow(
+      'Invalid statement'
+    );
+    expect(() =>
+      createSignInMessage({ ...FIELDS, statement: 'URI: https://evil.example.com' })
+    ).toThrow('Invalid statement');
+    expect(() => createSignInMessage({ ...FIELDS, statement: 'Resources:' })).toThrow(
+      'Invalid statement'
+    );
+    expect(() => createSignInMessage({ ...FIELDS, issuedAt: 'yesterday' })).toThrow(
+      SignInMessageError
+    );
+  });
+
+  it('reads back statements that mention a field', () => {
+    const fields = { ...FIELDS, statement: 'Check the URI: it must be app.example.com' };
+    expect(parseSignInMessage(createSignInMessage(fields))).toEqual(fields);
+  });
+
+  it.each([
+    ['a foreign header', MESSAGE.replace('Aptos', 'Ethereum')],
+    ['a missing field', MESSAGE.replace('Nonce: abcd1234\n', '')],
+    ['fields out of order', MESSAGE.replace('Version: 1\nChain ID: 2', 'Chain ID: 2\nVersion: 1')],
+    ['an unknown field', MESSAGE.replace('Version: 1', 'Version: 1\nColor: blue')],
+    ['a duplicated field', MESSAGE.replace('Version: 1', 'Version: 1\nVersion: 1')],
+    ['a non numeric chain id', MESSAGE.replace('Chain ID: 2', 'Chain ID: two')],
+    ['an invalid address', MESSAGE.replace('0x1a2b', '1a2b')],
+    ['a bad resource line', MESSAGE.replace('- ipfs', 'ipfs')],
+    ['an empty resource list', MESSAGE.split('\nResources:')[0] + '\nResources:'],
+    ['trailing text', `${MESSAGE}\n`]
+  ])('rejects %s', (_, text) => {
+    expect(() => parseSignInMessage(text)).toThrow(SignInMessageError);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @jest-environment node
+ */
+import { AptosClient, BCS, HexString, TxnBuilderTypes } from 'aptos';
+import type { AccountData, MoveFunctionVisibility, UserTransaction } from 'aptos/src/generated';
+import { AptosWalletAdapter } from '../src/WalletAdapters/AptosWallet';
+import { LocalAccountWalletAdapter } from '../src/WalletAdapters/LocalAccountWallet';
+import { WalletErrorCode } from '../src/WalletProviders/errors';
+
+const { AccountAddress, EntryFunction, TransactionPayloadEntryFunction } = TxnBuilderTypes;
+
+const SIMULATED = {
+  success: true,
+  vm_status: 'Executed successfully',
+  gas_used: '8',
+  gas_unit_price: '100',
+  events: [{ key: '0x1', sequence_number: '0', type: '0x1::coin::DepositEvent', data: {} }],
+  changes: [{ type: 'write_resource', address: '0x2' }]
+} as unknown as UserTransaction;
+
+// The SDK doesn't export its generated services, a client leads to their prototype
+const transactionsService = Object.getPrototypeOf(
+  new AptosClient('http://127.0.0.1:8080').client.transactions
+);
+
+const transfer = () =>
+  new TransactionPayloadEntryFunction(
+    EntryFunction.natural(
+      '0x1::coin',
+      'transfer',
+      [],
+      [BCS.bcsToBytes(AccountAddress.fromHex('0x2')), BCS.bcsSerializeUint64(717)]
+    )
+  );
+
+async function connectedWallet() {
+  const adapter = new LocalAccountWalletAdapter({
+    privateKey: new HexString('0x' + '11'.repeat(32))
+  });
+  const getAccount = jest
+    .spyOn(AptosClient.prototype, 'getAccount')
+    .mockResolvedValue({ sequence_number: '3' } as AccountData);
+  jest.spyOn(AptosClient.prototype, 'getChainId').mockResolvedValue(4);
+  jest.spyOn(transactionsService, 'estimateGasPrice').mockResolvedValue({ gas_estimate: 100 });
+  const submitBCSSimulation = jest.spyOn(AptosClient.prototype, 'submitBCSSimulation');
+  await adapter.connect();
+  return { adapter, getAccount, submitBCSSimulation };
+}
+
+const submittedRawTransaction = (signedTxn: Uint8Array) =>
+  TxnBuilderTypes.SignedTransaction.deserialize(new BCS.Deserializer(signedTxn)).raw_txn;
+
+describe('simulateTransaction', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('simulates as the connected account with the estimated gas unit price', async () => {
+    const { adapter, submitBCSSimulation } = await connectedWallet();
+    submitBCSSimulation.mockResolvedValue([SIMULATED]);
+
+    await expect(
+      adapter.simulateTransaction(transfer(), { max_gas_amount: '500' })
+    ).resolves.toEqual({
+      success: true,
+      vmStatus: 'Executed successfully',
+      gasUsed: BigInt(8),
+      gasUnitPrice: BigInt(100),
+      events: SIMULATED.events,
+      changes: SIMULATED.changes,
+      transaction: SIMULATED
+    });
+    const rawTxn = submittedRawTransaction(submitBCSSimulation.mock.calls[0][0] as Uint8Array);
+    expect(rawTxn.sequence_number).toBe(BigInt(3));
+    expect(rawTxn.max_gas_amount).toBe(BigInt(500));
+    expect(rawTxn.gas_unit_price).toBe(BigInt(100));
+  });
+
+  it('encodes JSON entry function payloads against the on-chain ABI', async () => {
+    const { adapter, submitBCSSimulation } = await connectedWallet();
+    submitBCSSimulation.mockResolvedValue([
+      { ...SIMULATED, success: false, vm_status: 'Out of gas' }
+    ]);
+    jest.spyOn(AptosClient.prototype, 'getAccountModules').mockResolvedValue([
+      {
+        bytecode: '0x',
+        abi: {
+          address: '0x1',
+          name: 'coin',
+          friends: [],
+          structs: [],
+          exposed_functions: [
+            {
+              name: 'transfer',
+              visibility: 'public' as MoveFunctionVisibility,
+              is_entry: true,
+              generic_type_params: [],
+              params: ['&signer', 'address', 'u64'],
+              return: []
+            }
+          ]
+        }
+      }
+    ]);
+
+    const simulation = await adapter.simulateTransaction(
+      {
+        type: 'entry_function_payload',
+        function: '0x1::coin::transfer',
+        type_arguments: [],
+        arguments: ['0x2', 717]
+      },
+      { gas_unit_price: '150' }
+    );
+    expect(simulation).toMatchObject({ success: false, vmStatus: 'Out of gas' });
+    const rawTxn = submittedRawTransaction(submitBCSSimulation.mock.calls[0][0] as Uint8Array);
+    expect(rawTxn.gas_unit_price).toBe(BigInt(150));
+    expect(BCS.bcsToBytes(rawTxn.payload)).toEqual(BCS.bcsToBytes(transfer()));
+  });
+
+  it('builds with an explicit sequence number and the connected account as sender', async () => {
+    const { adapter, getAccount, submitBCSSimulation } = await connectedWallet();
+    submitBCSSimulation.mockResolvedValue([SIMULATED]);
+    const { address } = adapter.publicAccount;
+
+    await adapter.simulateTransaction(transfer(), { sequence_number: 0, sender: address! });
+    const rawTxn = submittedRawTransaction(submitBCSSimulation.mock.calls[0][0] as Uint8Array);
+    expect(rawTxn.sequence_number).toBe(BigInt(0));
+    expect(HexString.fromUint8Array(rawTxn.sender.address).hex()).toBe(address);
+    expect(getAccount).toHaveBeenCalled();
+  });
+
+  it('refuses to simulate as another sender', async () => {
+    const { adapter, submitBCSSimulation } = await connectedWallet();
+
+    await expect(adapter.simulateTransaction(transfer(), { sender: '0x2' })).rejects.toMatchObject({
+      name: 'WalletMethodNotSupportedError',
+      code: WalletErrorCode.Unsupported,
+      operation: 'simulateTransaction'
+    });
+    expect(submitBCSSimulation).not.toHaveBeenCalled();
+  });
+
+  it("reuses the client of the wallet's node", async () => {
+    const getChainId = jest.spyOn(AptosClient.prototype, 'getChainId').mockResolvedValue(2);
+    const adapter = new AptosWalletAdapter();
+
+    await adapter.getChainId();
+    await adapter.getChainId();
+    expect(getChainId.mock.instances).toHaveLength(2);
+    expect(getChainId.mock.instances[1]).toBe(getChainId.mock.instances[0]);
+  });
+
+  it('reports simulation failures as WalletSimulationError', async () => {
+    const { adapter, submitBCSSimulation } = await connectedWallet();
+    submitBCSSimulation.mockRejectedValue(new Error('Network error'));
+
+    await expect(adapter.simulateTransaction(transfer())).rejects.toMatchObject({
+      name: 'WalletSimulationError',
+      code: WalletErrorCode.Internal,
+      walletName: 'Local Account',
+      operation: 'simulateTransaction'
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { AptosWalletAdapter } from '../src/WalletAdapters/AptosWallet';
+import { MartianWalletAdapter } from '../src/WalletAdapters/MartianWallet';
+import { PontemWalletAdapter } from '../src/WalletAdapters/PontemWallet';
+import { WalletErrorCode, WalletMethodNotSupportedError } from '../src/WalletProviders/errors';
+import { jsonTransactionOptions } from '../src/utilities/transactionOptions';
+
+const TRANSFER = {
+  type: 'entry_function_payload',
+  function: '0x1::coin::transfer',
+  type_arguments: ['0x1::aptos_coin::AptosCoin'],
+  arguments: ['0x2', '717']
+};
+
+const ACCOUNT = { address: '0x1', publicKey: '0x1234', authKey: '0x5678' };
+
+describe('transaction options', () => {
+  afterEach(() => {
+    delete (window as any).aptos;
+    delete (window as any).martian;
+    delete (window as any).pontem;
+  });
+
+  it('converts the numeric options to strings and leaves the sender out', () => {
+    expect(
+      jsonTransactionOptions({
+        max_gas_amount: 1000,
+        gas_unit_price: BigInt(100),
+        expiration_timestamp_secs: '1700000000',
+        sequence_number: undefined,
+        sender: '0x2'
+      })
+    ).toEqual({
+      max_gas_amount: '1000',
+      gas_unit_price: '100',
+      expiration_timestamp_secs: '1700000000'
+    });
+  });
+
+  it('rejects options Petra would drop without prompting the wallet', async () => {
+    const signAndSubmitTransaction = jest.fn().mockResolvedValue({ hash: '0xabc' });
+    (window as any).aptos = {
+      isConnected: async () => false,
+      connect: async () => ACCOUNT,
+      signAndSubmitTransaction
+    };
+    const adapter = new AptosWalletAdapter();
+    const onError = jest.fn();
+    adapter.on('error', onError);
+    await adapter.connect();
+
+    const error = await adapter
+      .signAndSubmitTransaction(TRANSFER, { max_gas_amount: '1000', gas_unit_price: '1' })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(WalletMethodNotSupportedError);
+    expect(error).toMatchObject({
+      code: WalletErrorCode.Unsupported,
+      message: 'Petra does not support the transaction options: max_gas_amount, gas_unit_price',
+      walletName: 'Petra',
+      operation: 'signAndSubmitTransaction'
+    });
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(signAndSubmitTransaction).not.toHaveBeenCalled();
+
+    await expect(
+      adapter.signAndSubmitTransaction(TRANSFER, { max_gas_amount: undefined })
+    ).resolves.toEqual({ hash: '0xabc' });
+  });
+
+  it('hands the options and sender to Martian when generating the transaction', async () => {
+    const generateTransaction = jest.fn().mockResolvedValue({ raw: true });
+    (window as any).martian = {
+      isConnected: async () => false,
+      connect: async () => ACCOUNT,
+      account: async () => ACCOUNT,
+      generateTransaction,
+      signAndSubmitTransaction: async () => '0xabc'
+    };
+    const adapter = new MartianWalletAdapter();
+    await adapter.connect();
+
+    await adapter.signAndSubmitTransaction(TRANSFER, { sequence_number: 7 });
+    expect(generateTransaction).toHaveBeenLastCalledWith('0x1', TRANSFER, {
+      sequence_number: '7'
+    });
+
+    await adapter.signAndSubmitTransaction(TRANSFER, { gas_unit_price: '150', sender: '0x3' });
+    expect(generateTransaction).toHaveBeenLastCalledWith('0x3', TRANSFER, {
+      gas_unit_price: '150'
+    });
+  });
+
+  it('forwards gas options to Pontem but not a sequence number', async () => {
+    const signAndSubmit = jest.fn().mockResolvedValue({ success: true, result: { hash: '0xabc' } });
+    (window as any).pontem = {
+      isConnected: async () => false,
+      connect: async () => ACCOUNT,
+      account: async () => ACCOUNT.address,
+      publicKey: async () => ACCOUNT.publicKey,
+      signAndSubmit
+    };
+    const adapter = new PontemWalletAdapter();
+    await adapter.connect();
+
+    await adapter.signAndSubmitTransaction(TRANSFER, { max_gas_amount: 1000 });
+    expect(signAndSubmit).toHaveBeenCalledWith(TRANSFER, { max_gas_amount: '1000' });
+
+    await expect(
+      adapter.signAndSubmitTransaction(TRANSFER, { sequence_number: '7' })
+    ).rejects.toThrow(WalletMethodNotSupportedError);
+    expect(signAndSubmit).toHaveBeenCalledTimes(1);
+  });
+});
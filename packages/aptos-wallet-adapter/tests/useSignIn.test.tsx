@@ -0,0 +1,67 @@
+import { act, render } from '@testing-library/react';
+import { WalletProvider } from '../src/WalletProviders/WalletProvider';
+import { SignInState, useSignIn, UseSignInOptions } from '../src/WalletProviders/useSignIn';
+import { useWallet, WalletContextState } from '../src/WalletProviders/useWallet';
+import { WalletNotConnectedError } from '../src/WalletProviders/errors';
+import { parseSignInMessage } from '../src/utilities/signInMessage';
+import { MOCK_ACCOUNT, MockWalletAdapter } from './MockWalletAdapter';
+
+describe('useSignIn', () => {
+  let wallet: WalletContextState;
+  let signIn: SignInState;
+
+  const renderSignIn = (options: UseSignInOptions) => {
+    const Consumer = () => {
+      wallet = useWallet();
+      signIn = useSignIn(options);
+      return null;
+    };
+    render(
+      <WalletProvider wallets={[new MockWalletAdapter('Petra')]}>
+        <Consumer />
+      </WalletProvider>
+    );
+  };
+
+  beforeEach(() => localStorage.clear());
+
+  it('signs a Sign-In with Aptos message with the fetched nonce', async () => {
+    const getNonce = jest.fn().mockResolvedValue('nonce1234');
+    renderSignIn({ getNonce, statement: 'Sign in to Example', expiresIn: 60000 });
+    await act(async () => {
+      await wallet.connect('Petra');
+    });
+    await act(async () => {
+      await wallet.connect('Petra');
+    });
+
+    let payload: Awaited<ReturnType<SignInState['signIn']>> | undefined;
+    await act(async () => {
+      payload = await signIn.signIn();
+    });
+
+    expect(getNonce).toHaveBeenCalledTimes(1);
+    expect(payload!.signature).toBe(`signed:${payload!.message}`);
+    expect(payload!.publicKey).toBe(MOCK_ACCOUNT.publicKey);
+    const fields = parseSignInMessage(payload!.message);
+    expect(fields).toEqual(payload!.fields);
+    expect(fields).toMatchObject({
+      domain: 'localhost',
+      address: MOCK_ACCOUNT.address,
+      statement: 'Sign in to Example',
+      uri: 'http://localhost',
+      chainId: 4,
+      nonce: 'nonce1234'
+    });
+    expect(Date.parse(fields.expirationTime!) - Date.parse(fields.issuedAt)).toBe(60000);
+    expect(signIn.signingIn).toBe(false);
+  });
+
+  it('requires a connected wallet', async () => {
+    const getNonce = jest.fn();
+    renderSignIn({ getNonce });
+
+    await expect(signIn.signIn()).rejects.toBeInstanceOf(WalletNotConnectedError);
+    expect(getNonce).not.toHaveBeenCalled();
+  });
+});
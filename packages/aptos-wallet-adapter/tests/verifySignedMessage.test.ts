@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import { AptosAccount, HexString, TxnBuilderTypes } from 'aptos';
+import nacl from 'tweetnacl';
+import { verifySignedMessage } from '../src/utilities/verifySignedMessage';
+
+const FULL_MESSAGE = 'APTOS\nmessage: hello\nnonce: 42';
+const MESSAGE_BYTES = new TextEncoder().encode(FULL_MESSAGE);
+
+describe('verifySignedMessage', () => {
+  const account = new AptosAccount();
+  const signature = account.signBuffer(MESSAGE_BYTES);
+
+  it('accepts the hex variants wallets return', () => {
+    const publicKey = account.pubKey();
+    const variants = [signature.hex(), signature.noPrefix(), signature, signature.toUint8Array()];
+    variants.forEach((variant) => {
+      expect(
+        verifySignedMessage({ publicKey, fullMessage: FULL_MESSAGE, signature: variant })
+      ).toBe(true);
+    });
+    expect(
+      verifySignedMessage({
+        publicKey: publicKey.noPrefix(),
+        fullMessage: MESSAGE_BYTES,
+        signature: signature.hex()
+      })
+    ).toBe(true);
+  });
+
+  it('accepts a signature with the message attached', () => {
+    const signedMessage = nacl.sign(MESSAGE_BYTES, account.signingKey.secretKey);
+
+    expect(
+      verifySignedMessage({
+        publicKey: account.pubKey(),
+        fullMessage: FULL_MESSAGE,
+        signature: HexString.fromUint8Array(signedMessage)
+      })
+    ).toBe(true);
+  });
+
+  it('rejects another message, key or malformed input', () => {
+    const publicKey = account.pubKey();
+    expect(verifySignedMessage({ publicKey, fullMessage: 'APTOS', signature })).toBe(false);
+    expect(
+      verifySignedMessage({
+        publicKey: new AptosAccount().pubKey(),
+        fullMessage: FULL_MESSAGE,
+        signature
+      })
+    ).toBe(false);
+    expect(verifySignedMessage({ publicKey, fullMessage: FULL_MESSAGE, signature: '0x1234' })).toBe(
+      false
+    );
+    expect(
+      verifySignedMessage({ publicKey: 'not hex', fullMessage: FULL_MESSAGE, signature })
+    ).toBe(false);
+  });
+
+  describe('multi-ed25519', () => {
+    const signers = [new AptosAccount(), new AptosAccount(), new AptosAccount()];
+    const publicKey = new TxnBuilderTypes.MultiEd25519PublicKey(
+      signers.map((signer) => new TxnBuilderTypes.Ed25519PublicKey(signer.pubKey().toUint8Array())),
+      2
+    ).toBytes();
+
+    const multiSign = (indexes: number[]) =>
+      new TxnBuilderTypes.MultiEd25519Signature(
+        indexes.map(
+          (index) =>
+            new TxnBuilderTypes.Ed25519Signature(
+              signers[index].signBuffer(MESSAGE_BYTES).toUint8Array()
+            )
+        ),
+        TxnBuilderTypes.MultiEd25519Signature.createBitmap(indexes)
+      ).toBytes();
+
+    it('accepts signatures that reach the threshold', () => {
+      expect(
+        verifySignedMessage({ publicKey, fullMessage: FULL_MESSAGE, signature: multiSign([0, 2]) })
+      ).toBe(true);
+      expect(
+        verifySignedMessage({
+          publicKey: HexString.fromUint8Array(publicKey).hex(),
+          fullMessage: FULL_MESSAGE,
+          signature: HexString.fromUint8Array(multiSign([0, 1, 2])).hex()
+        })
+      ).toBe(true);
+    });
+
+    it('rejects signatures below the threshold or from other keys', () => {
+      expect(
+        verifySignedMessage({ publicKey, fullMessage: FULL_MESSAGE, signature: multiSign([1]) })
+      ).toBe(false);
+
+      const forged = multiSign([0, 1]);
+      forged.set(new AptosAccount().signBuffer(MESSAGE_BYTES).toUint8Array(), 64);
+      expect(verifySignedMessage({ publicKey, fullMessage: FULL_MESSAGE, signature: forged })).toBe(
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { AptosClient, WaitForTransactionError } from 'aptos';
+import type { Transaction } from 'aptos/src/generated';
+import { LocalAccountWalletAdapter } from '../src/WalletAdapters/LocalAccountWallet';
+import { WalletErrorCode } from '../src/WalletProviders/errors';
+
+const COMMITTED = {
+  type: 'user_transaction',
+  hash: '0xabc',
+  success: true,
+  vm_status: 'Executed successfully'
+} as Transaction;
+
+function localWallet() {
+  return {
+    adapter: new LocalAccountWalletAdapter(),
+    waitForTransactionWithResult: jest.spyOn(AptosClient.prototype, 'waitForTransactionWithResult')
+  };
+}
+
+describe('waitForTransaction', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('resolves with the committed transaction', async () => {
+    const { adapter, waitForTransactionWithResult } = localWallet();
+    waitForTransactionWithResult.mockResolvedValue(COMMITTED);
+
+    await expect(adapter.waitForTransaction('0xabc', 2500)).resolves.toBe(COMMITTED);
+    expect(waitForTransactionWithResult).toHaveBeenCalledWith('0xabc', { timeoutSecs: 3 });
+  });
+
+  it('rejects with the vm status of a transaction that aborted', async () => {
+    const { adapter, waitForTransactionWithResult } = localWallet();
+    const onError = jest.fn();
+    adapter.on('error', onError);
+    waitForTransactionWithResult.mockResolvedValue({
+      ...COMMITTED,
+      success: false,
+      vm_status: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)'
+    } as Transaction);
+
+    await expect(adapter.waitForTransaction('0xabc')).rejects.toMatchObject({
+      name: 'WalletTransactionFailedError',
+      code: WalletErrorCode.InsufficientBalance,
+      vmStatus: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)',
+      hash: '0xabc',
+      walletName: 'Local Account',
+      operation: 'waitForTransaction'
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out when the transaction is not committed in time', async () => {
+    const { adapter, waitForTransactionWithResult } = localWallet();
+    waitForTransactionWithResult.mockRejectedValue(
+      new WaitForTransactionError('Waiting for transaction 0xabc timed out', undefined)
+    );
+
+    await expect(adapter.waitForTransaction('0xabc')).rejects.toMatchObject({
+      name: 'WalletTimeoutError',
+      code: WalletErrorCode.Timeout
+    });
+  });
+});
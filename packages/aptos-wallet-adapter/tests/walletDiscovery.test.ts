@@ -0,0 +1,121 @@
+import { scopePollingDetectionStrategy, WalletReadyState } from '../src/WalletAdapters/BaseAdapter';
+import { MartianWalletAdapter } from '../src/WalletAdapters/MartianWallet';
+import { discoverWallet, registerWallet } from '../src/utilities/walletDiscovery';
+
+describe('wallet discovery', () => {
+  let injected: boolean;
+  let detect: jest.Mock<boolean, []>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    injected = false;
+    detect = jest.fn(() => injected);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (window as any).martian;
+  });
+
+  it('detects a wallet that is already injected without leaving anything running', () => {
+    injected = true;
+    discoverWallet(detect);
+
+    expect(detect).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('detects a wallet as soon as it registers', () => {
+    discoverWallet(detect);
+    injected = true;
+    const unregister = registerWallet({ name: 'Martian' });
+
+    expect(detect).toHaveBeenCalledTimes(2);
+    expect(jest.getTimerCount()).toBe(0);
+    unregister();
+  });
+
+  it('keeps scopePollingDetectionStrategy as an alias of discoverWallet', () => {
+    scopePollingDetectionStrategy(detect);
+    injected = true;
+    const unregister = registerWallet({ name: 'Martian' });
+
+    expect(detect).toHaveBeenCalledTimes(2);
+    expect(jest.getTimerCount()).toBe(0);
+    unregister();
+  });
+
+  it('asks wallets that registered earlier to register again', () => {
+    injected = true;
+    const unregister = registerWallet({ name: 'Martian' });
+    const listener = jest.fn();
+    window.addEventListener('aptos#registerWallet', listener);
+
+    discoverWallet(detect);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+    window.removeEventListener('aptos#registerWallet', listener);
+    unregister();
+  });
+
+  it('polls for wallets that never register', () => {
+    discoverWallet(detect);
+    jest.advanceTimersByTime(1000);
+    expect(detect.mock.calls.length).toBeGreaterThan(1);
+
+    injected = true;
+    jest.advanceTimersByTime(1000);
+    const calls = detect.mock.calls.length;
+    jest.advanceTimersByTime(1000);
+    expect(detect).toHaveBeenCalledTimes(calls);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('gives up at the deadline', () => {
+    const onTimeout = jest.fn();
+    discoverWallet(detect, { timeout: 3000, onTimeout });
+
+    jest.advanceTimersByTime(3000);
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+
+    const calls = detect.mock.calls.length;
+    injected = true;
+    registerWallet({ name: 'Martian' })();
+    expect(detect).toHaveBeenCalledTimes(calls);
+  });
+
+  it('stops looking when disposed', () => {
+    const onTimeout = jest.fn();
+    const stop = discoverWallet(detect, { onTimeout });
+
+    stop();
+    jest.advanceTimersByTime(60000);
+    expect(detect).toHaveBeenCalledTimes(1);
+    expect(onTimeout).not.toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('settles an adapter on NotDetected once discovery gives up', () => {
+    const adapter = new MartianWalletAdapter({ discoveryTimeout: 2000 });
+    const onReadyStateChange = jest.fn();
+    adapter.on('readyStateChange', onReadyStateChange);
+
+    jest.advanceTimersByTime(2000);
+    expect(onReadyStateChange).toHaveBeenCalledWith(WalletReadyState.NotDetected);
+    expect(adapter.readyState).toBe(WalletReadyState.NotDetected);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('marks an adapter installed when its wallet registers, unless disposed', () => {
+    const adapter = new MartianWalletAdapter();
+    const disposed = new MartianWalletAdapter();
+    disposed.dispose();
+
+    (window as any).martian = {};
+    registerWallet({ name: 'Martian' })();
+    expect(adapter.readyState).toBe(WalletReadyState.Installed);
+    expect(disposed.readyState).toBe(WalletReadyState.NotDetected);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,129 @@
+import { AptosWalletAdapter } from '../src/WalletAdapters/AptosWallet';
+import { LocalAccountWalletAdapter } from '../src/WalletAdapters/LocalAccountWallet';
+import { MartianWalletAdapter } from '../src/WalletAdapters/MartianWallet';
+import { PontemWalletAdapter } from '../src/WalletAdapters/PontemWallet';
+import {
+  WalletConnectionError,
+  WalletErrorCode,
+  WalletSignAndSubmitMessageError,
+  WalletTimeoutError,
+  WalletUserRejectedError
+} from '../src/WalletProviders/errors';
+
+const TRANSFER = {
+  type: 'entry_function_payload',
+  function: '0x1::coin::transfer',
+  type_arguments: ['0x1::aptos_coin::AptosCoin'],
+  arguments: ['0x2', '717']
+};
+
+const ACCOUNT = { address: '0x1', publicKey: '0x1234', authKey: '0x5678' };
+
+describe('wallet errors', () => {
+  afterEach(() => {
+    delete (window as any).aptos;
+    delete (window as any).martian;
+    delete (window as any).pontem;
+  });
+
+  it('maps Petra error codes and keeps the original error', async () => {
+    const rejection = { code: 4001, name: 'Rejected', message: 'The user rejected the request' };
+    (window as any).aptos = {
+      isConnected: async () => false,
+      connect: async () => ACCOUNT,
+      signAndSubmitTransaction: async () => rejection
+    };
+    const adapter = new AptosWalletAdapter();
+    const onError = jest.fn();
+    adapter.on('error', onError);
+    await adapter.connect();
+
+    const error = await adapter.signAndSubmitTransaction(TRANSFER).catch((e) => e);
+    expect(error).toBeInstanceOf(WalletUserRejectedError);
+    expect(error).toMatchObject({
+      code: WalletErrorCode.UserRejected,
+      message: 'The user rejected the request',
+      walletName: 'Petra',
+      operation: 'signAndSubmitTransaction',
+      error: rejection
+    });
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it('recognizes rejections reported as text, whatever their capitalisation', async () => {
+    (window as any).martian = {
+      isConnected: async () => false,
+      connect: () => Promise.reject('User Rejected the request')
+    };
+    const adapter = new MartianWalletAdapter();
+
+    const error = await adapter.connect().catch((e) => e);
+    expect(error).toBeInstanceOf(WalletUserRejectedError);
+    expect(error).toMatchObject({ walletName: 'Martian', operation: 'connect' });
+  });
+
+  it('turns a Pontem `success: false` into a rejection and other failures into internal errors', async () => {
+    const signAndSubmit = jest.fn().mockResolvedValue({ success: false });
+    (window as any).pontem = {
+      isConnected: async () => false,
+      connect: async () => ACCOUNT,
+      account: async () => ACCOUNT.address,
+      publicKey: async () => ACCOUNT.publicKey,
+      signAndSubmit
+    };
+    const adapter = new PontemWalletAdapter();
+    await adapter.connect();
+
+    await expect(adapter.signAndSubmitTransaction(TRANSFER)).rejects.toThrow(
+      WalletUserRejectedError
+    );
+
+    signAndSubmit.mockRejectedValue(new Error('Move abort'));
+    const error = await adapter.signAndSubmitTransaction(TRANSFER).catch((e) => e);
+    expect(error).toBeInstanceOf(WalletSignAndSubmitMessageError);
+    expect(error.code).toBe(WalletErrorCode.Internal);
+  });
+
+  it('tags timeouts with the wallet and operation', async () => {
+    (window as any).martian = {
+      isConnected: async () => false,
+      connect: () => new Promise(() => undefined)
+    };
+    const adapter = new MartianWalletAdapter({ timeout: 10 });
+
+    const error = await adapter.connect().catch((e) => e);
+    expect(error).toBeInstanceOf(WalletTimeoutError);
+    expect(error).toMatchObject({
+      code: WalletErrorCode.Timeout,
+      walletName: 'Martian',
+      operation: 'connect'
+    });
+  });
+
+  it.each([
+    ['Wallet is locked', WalletErrorCode.Locked],
+    ['INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE', WalletErrorCode.InsufficientBalance],
+    ['Wallet is on a different network', WalletErrorCode.NetworkMismatch],
+    ['Transaction rejected: SEQUENCE_NUMBER_TOO_OLD', WalletErrorCode.Internal],
+    ['permission denied', WalletErrorCode.Internal]
+  ])('classifies "%s"', async (message, code) => {
+    (window as any).martian = {
+      isConnected: async () => false,
+      connect: () => Promise.reject(new Error(message))
+    };
+    const error = await new MartianWalletAdapter().connect().catch((e) => e);
+    expect(error).toBeInstanceOf(WalletConnectionError);
+    expect(error.code).toBe(code);
+  });
+
+  it('rejects with WalletUserRejectedError when the local account is told to', async () => {
+    const adapter = new LocalAccountWalletAdapter({ faults: { reject: ['connect'] } });
+
+    await expect(adapter.connect()).rejects.toMatchObject({
+      name: 'WalletUserRejectedError',
+      code: WalletErrorCode.UserRejected,
+      walletName: 'Local Account',
+      operation: 'connect'
+    });
+  });
+});
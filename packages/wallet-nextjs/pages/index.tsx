@@ -3,7 +3,7 @@ import { Button, Spin } from 'antd';
 import { useEffect, useState } from 'react';
 import { LoadingOutlined } from '@ant-design/icons';
 import { TransactionPayload } from 'aptos/src/generated';
-import { useWallet } from '@manahippo/aptos-wallet-adapter';
+import { useTransactions, useWallet } from '@manahippo/aptos-wallet-adapter';
 import { aptosClient, faucetClient } from '../config/aptosClient';
 import { AptosAccount } from 'aptos';
 
@@ -13,7 +13,7 @@ const MainPage = () => {
     transaction: false,
     faucet: false
   });
-  const [txLinks, setTxLinks] = useState<string[]>([]);
+  const [faucetTxLinks, setFaucetTxLinks] = useState<string[]>([]);
   const [signature, setSignature] = useState<string>('');
   const {
     connect,
@@ -24,9 +24,9 @@ const MainPage = () => {
     connecting,
     connected,
     disconnecting,
-    wallet: currentWallet,
     signMessage
   } = useWallet();
+  const { transactions, clearTransactions } = useTransactions();
 
   const renderWalletConnectorGroup = () => {
     return wallets.map((wallet) => {
@@ -59,16 +59,12 @@ const MainPage = () => {
           type: 'entry_function_payload',
           function: '0x1::coin::transfer',
           type_arguments: ['0x1::aptos_coin::AptosCoin'],
-          arguments: [
-            demoAccount.address().hex(),
-            ['Fewcha'].includes(currentWallet?.adapter?.name || '') ? 717 : '717'
-          ]
+          arguments: [demoAccount.address().hex(), 717]
         };
         // const txnRequest = await aptosClient.generateTransaction(addressKey, payload);
-        const transactionRes = await signAndSubmitTransaction(payload);
-        await aptosClient.waitForTransaction(transactionRes?.hash || '');
-        const links = [...txLinks, `https://explorer.devnet.aptos.dev/txn/${transactionRes?.hash}`];
-        setTxLinks(links);
+        await signAndSubmitTransaction(payload, {
+          waitForConfirmation: true
+        });
       }
     } catch (err: any) {
       console.log('tx error: ', err.msg);
@@ -81,8 +77,24 @@ const MainPage = () => {
   };
 
   const renderTxLinks = () => {
-    return txLinks.map((link: string, index: number) => (
-      <div className="flex gap-2 transaction" key={link}>
+    return transactions.map(({ hash, status }, index) => (
+      <div className="flex gap-2 transaction" key={hash}>
+        <p>{index + 1}.</p>
+        <a
+          href={`https://explorer.devnet.aptos.dev/txn/${hash}`}
+          target="_blank"
+          rel="noreferrer"
+          className="underline">
+          {hash}
+        </a>
+        <p>{status}</p>
+      </div>
+    ));
+  };
+
+  const renderFaucetTxLinks = () => {
+    return faucetTxLinks.map((link: string, index: number) => (
+      <div className="flex gap-2 faucet" key={link}>
         <p>{index + 1}.</p>
         <a href={link} target="_blank" rel="noreferrer" className="underline">
           {link}
@@ -99,8 +111,13 @@ const MainPage = () => {
       });
       if (account?.publicKey) {
         const addressKey = account?.publicKey?.toString() || '';
-        const signedMessage = (await signMessage(`Hello from account ${addressKey}`)) as any;
-        setSignature(signedMessage.signedMessage.toString());
+        const signedMessage = await signMessage({
+          message: `Hello from account ${addressKey}`,
+          nonce: Date.now().toString(),
+          address: true,
+          application: true
+        });
+        setSignature(signedMessage.signature);
       }
     } catch (err: any) {
       console.log('tx error: ', err.msg);
@@ -121,8 +138,11 @@ const MainPage = () => {
       if (account?.address) {
         const transactionRes = await faucetClient.fundAccount(account.address, 1000);
         await aptosClient.waitForTransaction(`0x${transactionRes[0]}` || '');
-        const links = [...txLinks, `https://explorer.devnet.aptos.dev/txn/0x${transactionRes[0]}`];
-        setTxLinks(links);
+        const links = [
+          ...faucetTxLinks,
+          `https://explorer.devnet.aptos.dev/txn/0x${transactionRes[0]}`
+        ];
+        setFaucetTxLinks(links);
       }
     } catch (err: any) {
       console.log('tx error: ', err.msg);
@@ -167,7 +187,8 @@ const MainPage = () => {
           <Button
             id="disconnectBtn"
             onClick={() => {
-              setTxLinks([]);
+              setFaucetTxLinks([]);
+              clearTransactions();
               setSignature('');
               disconnect();
             }}>
@@ -180,6 +201,10 @@ const MainPage = () => {
             <h4>Transaction History:</h4>
             <div className="flex flex-col gap-2">{renderTxLinks()}</div>
           </div>
+          <div className="mt-4">
+            <h4>Faucet History:</h4>
+            <div className="flex flex-col gap-2">{renderFaucetTxLinks()}</div>
+          </div>
         </div>
       );
     } else {
@@ -7,7 +7,8 @@ import {
   MartianWalletAdapter,
   FewchaWalletAdapter,
   PontemWalletAdapter,
-  SpikaWalletAdapter
+  SpikaWalletAdapter,
+  NightlyWalletAdapter
 } from '@manahippo/aptos-wallet-adapter';
 import MainPage from './pages';
 import { message } from 'antd';
@@ -21,8 +22,8 @@ const App: React.FC = () => {
       new AptosWalletAdapter(),
       new FewchaWalletAdapter(),
       new PontemWalletAdapter(),
-      new SpikaWalletAdapter()
-      // new NightlyWalletAdapter()
+      new SpikaWalletAdapter(),
+      new NightlyWalletAdapter()
     ],
     []
   );
@@ -4,7 +4,7 @@ import { Button, Spin } from 'antd';
 import { useEffect, useMemo, useState } from 'react';
 import { LoadingOutlined } from '@ant-design/icons';
 import { TransactionPayload } from 'aptos/src/generated';
-import { useWallet } from '@manahippo/aptos-wallet-adapter';
+import { useTransactions, useWallet } from '@manahippo/aptos-wallet-adapter';
 import { aptosClient, faucetClient } from '../config/aptosClient';
 import { AptosAccount } from 'aptos';
 
@@ -14,7 +14,6 @@ const MainPage = () => {
     transaction: false,
     faucet: false
   });
-  const [txLinks, setTxLinks] = useState<string[]>([]);
   const [faucetTxLinks, setFaucetTxLinks] = useState<string[]>([]);
   const [signature, setSignature] = useState<string>('');
   const {
@@ -30,6 +29,7 @@ const MainPage = () => {
     signMessage,
     signTransaction
   } = useWallet();
+  const { transactions, clearTransactions } = useTransactions();
 
   const renderWalletConnectorGroup = () => {
     return wallets.map((wallet) => {
@@ -62,10 +62,7 @@ const MainPage = () => {
           type: 'entry_function_payload',
           function: '0x1::coin::transfer',
           type_arguments: ['0x1::aptos_coin::AptosCoin'],
-          arguments: [
-            demoAccount.address().hex(),
-            ['Fewcha'].includes(currentWallet?.adapter?.name || '') ? 717 : '717'
-          ]
+          arguments: [demoAccount.address().hex(), 717]
         };
         const transactionRes = await signTransaction(payload);
         console.log('test sign transaction: ', transactionRes);
@@ -86,10 +83,12 @@ const MainPage = () => {
         ...txLoading,
         transaction: true
       });
-      const pontemOptions = {
-        max_gas_amount: '1000',
-        gas_unit_price: '1'
-      };
+      // Only for wallets that let the dApp set the gas, the others reject the options
+      const gasOptions = currentWallet?.adapter.supportedTransactionOptions.includes(
+        'max_gas_amount'
+      )
+        ? { max_gas_amount: '1000', gas_unit_price: '1' }
+        : {};
       if (account?.address || account?.publicKey) {
         const demoAccount = new AptosAccount();
         await faucetClient.fundAccount(demoAccount.address(), 0);
@@ -97,15 +96,12 @@ const MainPage = () => {
           type: 'entry_function_payload',
           function: '0x1::coin::transfer',
           type_arguments: ['0x1::aptos_coin::AptosCoin'],
-          arguments: [
-            demoAccount.address().hex(),
-            ['Fewcha'].includes(currentWallet?.adapter?.name || '') ? 717 : '717'
-          ]
+          arguments: [demoAccount.address().hex(), 717]
         };
-        const transactionRes = await signAndSubmitTransaction(payload, pontemOptions);
-        await aptosClient.waitForTransaction(transactionRes?.hash || '');
-        const links = [...txLinks, `https://explorer.devnet.aptos.dev/txn/${transactionRes?.hash}`];
-        setTxLinks(links);
+        await signAndSubmitTransaction(payload, {
+          ...gasOptions,
+          waitForConfirmation: true
+        });
       }
     } catch (err: any) {
       console.log('tx error: ', err.msg);
@@ -118,12 +114,17 @@ const MainPage = () => {
   };
 
   const renderTxLinks = () => {
-    return txLinks.map((link: string, index: number) => (
-      <div className="flex gap-2 transaction" key={link}>
+    return transactions.map(({ hash, status }, index) => (
+      <div className="flex gap-2 transaction" key={hash}>
         <p>{index + 1}.</p>
-        <a href={link} target="_blank" rel="noreferrer" className="underline">
-          {link}
+        <a
+          href={`https://explorer.devnet.aptos.dev/txn/${hash}`}
+          target="_blank"
+          rel="noreferrer"
+          className="underline">
+          {hash}
         </a>
+        <p>{status}</p>
       </div>
     ));
   };
@@ -230,7 +231,7 @@ const MainPage = () => {
           <Button
             id="disconnectBtn"
             onClick={() => {
-              setTxLinks([]);
+              clearTransactions();
               setSignature('');
               disconnect();
             }}>